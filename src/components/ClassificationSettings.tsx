@@ -0,0 +1,380 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Tags, RotateCcw, Download, Upload, Plus, Trash2, Save, AlertCircle } from 'lucide-react';
+import { ClassificationField, ClassificationRule } from '../types';
+import {
+  CLASSIFICATION_FIELDS,
+  CLASSIFICATION_LEVELS,
+  ClassifiableIssue,
+  IssueClassification,
+  classificationService,
+} from '../services/classification';
+import { ValidationError } from '../services/github';
+
+interface ClassificationSettingsProps {
+  rules: ClassificationRule[];
+  customized: boolean;
+  issues: Array<ClassifiableIssue & { id: number }>;
+  onRulesChange: (rules: ClassificationRule[] | undefined) => void;
+}
+
+const FIELD_LABELS: Record<ClassificationField, string> = {
+  category: 'Category',
+  priority: 'Priority',
+  difficulty: 'Difficulty',
+};
+
+const PREVIEW_LIMIT = 8;
+
+// Categories are shown in full since an issue can have several
+const describe = (classification: IssueClassification, field: ClassificationField) =>
+  field === 'category' ? classification.categories.join(', ') : classification[field];
+
+const splitTerms = (value: string) => value.split(',').map(term => term.trim()).filter(Boolean);
+
+// Comma-separated list that only commits on blur, so typing a trailing comma is not undone
+const TermsInput: React.FC<{ label: string; value?: string[]; placeholder: string; onChange: (terms: string[]) => void }> = ({
+  label,
+  value,
+  placeholder,
+  onChange,
+}) => {
+  const joined = value?.join(', ') ?? '';
+  const [text, setText] = useState(joined);
+
+  useEffect(() => {
+    setText(joined);
+  }, [joined]);
+
+  return (
+    <label className="block">
+      <span className="text-xs text-slate-500">{label}</span>
+      <input
+        type="text"
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(splitTerms(text))}
+        className="w-full mt-1 px-3 py-2 glass-effect border border-slate-600/50 rounded-lg text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </label>
+  );
+};
+
+// Edits a draft copy of the rules; the preview shows how the draft would classify the
+// loaded issues compared with the saved rules before anything is applied.
+const ClassificationSettings: React.FC<ClassificationSettingsProps> = ({ rules, customized, issues, onRulesChange }) => {
+  const [draft, setDraft] = useState(rules);
+  const [field, setField] = useState<ClassificationField>('category');
+  const [importError, setImportError] = useState<ValidationError | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const dirty = draft !== rules;
+
+  // Evaluation order, with disabled rules kept in place so they can be switched back on
+  const fieldRules = useMemo(() => {
+    const ordered = classificationService.getOrderedRules(draft.map(rule => ({ ...rule, enabled: true })), field);
+    return ordered.map(rule => draft.find(original => original.id === rule.id)!);
+  }, [draft, field]);
+
+  const preview = useMemo(() => {
+    const rows = issues.map(issue => {
+      const before = classificationService.classify(issue, rules);
+      const after = classificationService.classify(issue, draft);
+      const changed = CLASSIFICATION_FIELDS.some(key =>
+        before.matchedRules[key] !== after.matchedRules[key] || describe(before, key) !== describe(after, key)
+      );
+      return { issue, before, after, changed };
+    });
+    const counts = rows.reduce<Record<string, number>>((acc, { after }) => {
+      (field === 'category' ? after.categories : [after[field]]).forEach(value => {
+        acc[value] = (acc[value] ?? 0) + 1;
+      });
+      return acc;
+    }, {});
+    return {
+      rows: [...rows.filter(row => row.changed), ...rows.filter(row => !row.changed)].slice(0, PREVIEW_LIMIT),
+      changedCount: rows.filter(row => row.changed).length,
+      counts: Object.entries(counts).sort((a, b) => b[1] - a[1]),
+    };
+  }, [issues, rules, draft, field]);
+
+  const updateRule = (id: string, changes: Partial<ClassificationRule>) => {
+    setDraft(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    const highest = fieldRules.filter(rule => !rule.repositories?.length).reduce((max, rule) => Math.max(max, rule.priority), 0);
+    setDraft(prev => [
+      ...prev,
+      {
+        id: `${field}-custom-${Date.now()}`,
+        field,
+        value: CLASSIFICATION_LEVELS[field]?.[0] ?? 'other',
+        priority: highest + 10,
+        labels: [],
+      },
+    ]);
+  };
+
+  const exportRules = () => {
+    const blob = new Blob([classificationService.exportRules(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'giteasy-classification-rules.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importRules = async (file: File) => {
+    try {
+      setDraft(classificationService.importRules(await file.text()));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof ValidationError ? error : new ValidationError('Could not read rules file'));
+    }
+  };
+
+  return (
+    <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-700/50 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-teal-500 to-emerald-500">
+            <Tags className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Classification Rules</h3>
+            <p className="text-slate-400 text-sm">How labels and titles map issues to a category, priority and difficulty</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center space-x-2"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+          </button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importRules(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={exportRules}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center space-x-2"
+          >
+            <Download className="h-4 w-4" />
+            <span>Export</span>
+          </button>
+          {customized && (
+            <button
+              onClick={() => onRulesChange(undefined)}
+              className="text-sm text-slate-400 hover:text-white transition-colors flex items-center space-x-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>Reset</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {importError && (
+          <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-xl text-sm text-red-400">
+            <div className="flex items-center space-x-2 font-medium">
+              <AlertCircle className="h-4 w-4" />
+              <span>{importError.message}</span>
+            </div>
+            {importError.errors.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs text-red-300">
+                {importError.errors.map((error, index) => (
+                  <li key={index}>{error.field}: {error.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex space-x-2">
+            {CLASSIFICATION_FIELDS.map(key => (
+              <button
+                key={key}
+                onClick={() => setField(key)}
+                aria-pressed={field === key}
+                className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                  field === key
+                    ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                    : 'glass-effect text-slate-400 border-slate-700/50 hover:text-white'
+                }`}
+              >
+                {FIELD_LABELS[key]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={addRule}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add rule</span>
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-500">
+          Rules are checked top to bottom. Every matching category rule adds a category, and the first one becomes the
+          primary category; for priority and difficulty the first match wins. Rules limited to repositories run before the rest.
+          Terms match whole words; wrap a term in slashes to use a regular expression. A rule without terms applies when
+          nothing above it matched.
+        </p>
+
+        <div className="space-y-3">
+          {fieldRules.map(rule => {
+            const levels = CLASSIFICATION_LEVELS[rule.field];
+            return (
+              <div
+                key={rule.id}
+                className={`p-4 glass-effect rounded-xl border border-slate-700/50 space-y-3 ${rule.enabled === false ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center space-x-3">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled !== false}
+                    onChange={(e) => updateRule(rule.id, { enabled: e.target.checked ? undefined : false })}
+                    className="accent-blue-500"
+                    aria-label="Rule enabled"
+                  />
+                  {levels ? (
+                    <select
+                      value={rule.value}
+                      onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                      className="px-3 py-2 glass-effect border border-slate-600/50 rounded-lg text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {levels.map(level => (
+                        <option key={level} value={level} className="bg-slate-800">{level}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="text"
+                      value={rule.value}
+                      onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                      className="px-3 py-2 glass-effect border border-slate-600/50 rounded-lg text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      aria-label="Category"
+                    />
+                  )}
+                  <label className="flex items-center space-x-2 text-xs text-slate-500">
+                    <span>Priority</span>
+                    <input
+                      type="number"
+                      value={rule.priority}
+                      onChange={(e) => updateRule(rule.id, { priority: Number(e.target.value) || 0 })}
+                      className="w-20 px-2 py-2 glass-effect border border-slate-600/50 rounded-lg text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </label>
+                  {rule.repositories?.length ? (
+                    <span className="text-xs px-2 py-1 rounded-full bg-purple-500/20 text-purple-400 border border-purple-500/30">
+                      Repo override
+                    </span>
+                  ) : null}
+                  <button
+                    onClick={() => setDraft(prev => prev.filter(other => other.id !== rule.id))}
+                    className="ml-auto p-2 text-slate-400 hover:text-red-400 transition-colors"
+                    aria-label="Delete rule"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <TermsInput
+                    label="Label terms"
+                    value={rule.labels}
+                    placeholder="bug, /^type: ?bug$/"
+                    onChange={(labels) => updateRule(rule.id, { labels })}
+                  />
+                  <TermsInput
+                    label="Title terms"
+                    value={rule.title}
+                    placeholder="crash, error"
+                    onChange={(title) => updateRule(rule.id, { title })}
+                  />
+                  <TermsInput
+                    label="Only in repositories"
+                    value={rule.repositories}
+                    placeholder="owner/repo"
+                    onChange={(repositories) => updateRule(rule.id, { repositories })}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 glass-effect rounded-xl border border-slate-700/50">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-white font-medium">Preview</h4>
+            <span className="text-xs text-slate-400">
+              {issues.length === 0
+                ? 'No issues loaded'
+                : `${preview.changedCount} of ${issues.length} loaded issues change`}
+            </span>
+          </div>
+          {preview.counts.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {preview.counts.map(([value, count]) => (
+                <span key={value} className="text-xs px-2 py-1 rounded-full glass-effect border border-slate-700/50 text-slate-300">
+                  {value} · {count}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            {preview.rows.map(({ issue, before, after, changed }) => (
+              <div key={issue.id} className="text-xs flex items-center justify-between">
+                <span className="text-slate-300 truncate mr-3" title={issue.title}>{issue.title}</span>
+                <span className={`flex-shrink-0 ${changed ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {changed && describe(before, field) !== describe(after, field) && (
+                    <span className="line-through mr-1">{describe(before, field)}</span>
+                  )}
+                  {describe(after, field)}
+                  <span className="text-slate-600"> · {after.matchedRules[field] ?? 'fallback'}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {dirty && (
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setDraft(rules)}
+              className="px-4 py-2 glass-effect border border-slate-600/50 text-slate-300 hover:text-white rounded-xl text-sm transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              onClick={() => onRulesChange(draft)}
+              className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-xl text-sm font-medium flex items-center space-x-2 hover:from-blue-700 hover:to-purple-700 transition-all"
+            >
+              <Save className="h-4 w-4" />
+              <span>Save rules</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClassificationSettings;
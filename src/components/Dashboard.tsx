@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { UserData, Issue } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { UserData, Issue, PullRequest, IssueClaim, IssueRanking, DiscoverFilters, SavedSearch, IssueChange, Bookmark, Digest, DigestCadence } from '../types';
 import { 
   Github, 
   Bell, 
@@ -30,11 +30,47 @@ import {
   Trash2,
   Search,
   Globe,
-  Code
+  Code,
+  EyeOff,
+  GitPullRequest,
+  Newspaper,
+  BookmarkPlus,
+  BookmarkCheck
 } from 'lucide-react';
-import { useGitHub, useBeginnerIssues } from '../hooks/useGitHub';
-import { githubService } from '../services/github';
+import { useGitHub, useBeginnerIssues, useIssueClaims, useRepositoryHealth, useClaRequirements, useRepositoryLabels, useRateLimit, useLatestRequest } from '../hooks/useGitHub';
+import { githubService, toRankingInput, GitHubIssue, GitHubError, RepositoryIssuesResult, RepositoryPullRequestsResult, AuthError, NotFoundError, NetworkError, RateLimitError, isAbortError, toGitHubError } from '../services/github';
+import { queryCache } from '../services/queryCache';
+import { claimService } from '../services/claims';
+import { HEALTH_THRESHOLDS, healthService } from '../services/health';
+import { DEFAULT_RANKING_WEIGHTS, RankingInput, rankingEngine } from '../services/ranking';
+import { DEFAULT_CLASSIFICATION_RULES, ClassifiableIssue, classificationService } from '../services/classification';
+import { estimateDifficulty } from '../services/difficulty';
+import { labelMappingService } from '../services/labels';
+import { createSavedSearch, formatResultCount, isSameSearch, recordWatchedResults } from '../services/savedSearches';
+import { DEFAULT_EXCLUSIONS, addExclusion, isRepositoryExcluded, needsRepositoryTraits, removeExclusion } from '../services/exclusions';
+import { MAX_ISSUE_ALERTS, diffIssueSnapshot, notificationService, wantsIssueChange } from '../services/notifications';
+import { MAX_DIGESTS, DigestSources, digestService, formatDigestWindow, getDueCadences, getLatestWindow } from '../services/digest';
 import RepositorySelector from './RepositorySelector';
+import RankingBreakdown from './RankingBreakdown';
+import RankingSettings from './RankingSettings';
+import ClassificationSettings from './ClassificationSettings';
+import DifficultyBadge from './DifficultyBadge';
+import LabelMappingSettings from './LabelMappingSettings';
+import ExclusionSettings from './ExclusionSettings';
+import SavedSearches from './SavedSearches';
+import NotificationSettings from './NotificationSettings';
+import NotificationCenter from './NotificationCenter';
+import DigestView from './DigestView';
+
+// Monitored issues as fetched; category and priority come from the classification rules, difficulty from the estimator
+type UnclassifiedIssue = Omit<Issue, 'type' | 'categories' | 'priority' | 'difficulty' | 'difficultyEstimate'>;
+
+// Monitored repositories and watched searches refresh on the same schedule
+const REFRESH_INTERVAL_MS = 2 * 60 * 1000;
+
+const EMPTY_SAVED_SEARCHES: SavedSearch[] = [];
+const EMPTY_ISSUE_ALERTS: IssueChange[] = [];
+const EMPTY_DIGESTS: Digest[] = [];
 
 interface DashboardProps {
   userData: UserData;
@@ -43,41 +79,401 @@ interface DashboardProps {
 }
 
 const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogout }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'repositories' | 'issues' | 'discover' | 'settings'>('overview');
-  const handleTabChange = (tab: 'overview' | 'repositories' | 'issues' | 'discover' | 'settings') => {
+  const [activeTab, setActiveTab] = useState<'overview' | 'repositories' | 'issues' | 'pulls' | 'discover' | 'digests' | 'settings'>('overview');
+  const handleTabChange = (tab: 'overview' | 'repositories' | 'issues' | 'pulls' | 'discover' | 'digests' | 'settings') => {
     setActiveTab(tab);
   };
 
-  const [allIssues, setAllIssues] = useState<Issue[]>([]);
+  const [monitoredIssues, setMonitoredIssues] = useState<UnclassifiedIssue[]>([]);
+  const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
   const [loading, setLoading] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
-  const [selectedLanguage, setSelectedLanguage] = useState<string>('');
-  const [selectedLabel, setSelectedLabel] = useState<string>('');
+  // Discover matches any of the selected languages and any of the selected labels
+  const [selectedLanguages, setSelectedLanguages] = useState<string[]>([]);
+  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
+  // A monitored repository to search within; its label mapping translates the label filter
+  const [selectedRepository, setSelectedRepository] = useState<string>('');
+  // "best" ranks results with the user's ranking weights instead of a GitHub sort
   const [sortOptions, setSortOptions] = useState<{
-    primary: 'updated' | 'stars' | 'created';
+    primary: 'best' | 'updated' | 'stars' | 'created';
     secondary?: 'updated' | 'stars' | 'created';
-  }>({ primary: 'updated' });
+  }>({ primary: 'best' });
   
   // State for issue filters
   const [issueFilters, setIssueFilters] = useState({
     type: '',
     status: ''
   });
+  const [hideClaimed, setHideClaimed] = useState(false);
+  // Minimum repository health score for Discover results; 0 disables the filter
+  const [minHealth, setMinHealth] = useState(0);
+  // The filters of the search currently shown on Discover, numbered so re-running the same
+  // filters counts as a new run
+  const [searchedRun, setSearchedRun] = useState<{ id: number; filters: DiscoverFilters } | null>(null);
+  const searchedFilters = searchedRun?.filters ?? null;
+  const [showNotifications, setShowNotifications] = useState(false);
+  const [generatingDigest, setGeneratingDigest] = useState<DigestCadence | null>(null);
+  const [digestError, setDigestError] = useState<string | null>(null);
+  // The last repository or owner hidden from a Discover card, offered for undo
+  const [lastHidden, setLastHidden] = useState<{ kind: 'repositories' | 'organizations'; name: string } | null>(null);
   const [refreshing, setRefreshing] = useState(false);
   const [showAddRepos, setShowAddRepos] = useState(false);
   const [updatedUserData, setUpdatedUserData] = useState<UserData>(userData);
+  const [fetchError, setFetchError] = useState<GitHubError | null>(null);
+  const [missingRepositories, setMissingRepositories] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+  
+  // Changes may be computed from the latest data, so effects can update it without depending on it
+  const updateUserData = useCallback((changes: Partial<UserData> | ((prev: UserData) => Partial<UserData>)) => {
+    setUpdatedUserData(prev => {
+      const newUserData = { ...prev, ...(typeof changes === 'function' ? changes(prev) : changes) };
+      // Save to localStorage
+      localStorage.setItem('giteasy_user_data', JSON.stringify(newUserData));
+      return newUserData;
+    });
+  }, []);
   
   const { user, logout } = useGitHub();
-  const { issues: beginnerIssues, loading: beginnerLoading, searchIssues } = useBeginnerIssues();
+  const rateLimit = useRateLimit();
+  const { start: startIssuesRequest } = useLatestRequest();
+  const {
+    issues: beginnerIssues,
+    totalCount: beginnerTotalCount,
+    approximateTotal: beginnerApproximateTotal,
+    hasMore: beginnerHasMore,
+    incompleteResults: beginnerIncomplete,
+    error: beginnerError,
+    queries: beginnerQueries,
+    loading: beginnerLoading,
+    loadingMore: beginnerLoadingMore,
+    searchIssues,
+    loadMore: loadMoreBeginnerIssues,
+  } = useBeginnerIssues();
+  const { claims: beginnerClaims } = useIssueClaims(beginnerIssues);
+  const rankingWeights = updatedUserData.rankingWeights ?? {};
+  const rankingContext = { preferredLanguages: updatedUserData.preferredLanguages ?? [] };
+  // Health only needs fetching when it filters or ranks something
+  const rankByHealth = (rankingWeights.health ?? DEFAULT_RANKING_WEIGHTS.health) > 0;
+  const exclusions = updatedUserData.exclusions ?? DEFAULT_EXCLUSIONS;
+  const discoverRepositories = beginnerIssues.map(issue => issue.repository_url.split('/').slice(-2).join('/'));
+  const { health: discoverHealth, loading: discoverHealthLoading } = useRepositoryHealth(
+    discoverRepositories,
+    minHealth > 0 || (sortOptions.primary === 'best' && rankByHealth) || needsRepositoryTraits(exclusions)
+  );
+  const { claRequirements } = useClaRequirements(discoverRepositories, exclusions.cla);
+  const monitoredNames = updatedUserData.repositories?.map(repo => repo.full_name) ?? [];
+  const { health: monitoredHealth } = useRepositoryHealth(monitoredNames, rankByHealth);
+  const { labels: repositoryLabels, loading: repositoryLabelsLoading } = useRepositoryLabels(monitoredNames);
   const hasInitialLoad = useRef(false);
 
+  // Classified at render time so edited rules apply without refetching. Rules derived from each
+  // repository's label mapping come first, then the user's own rules (or the built-in ones).
+  const userClassificationRules = updatedUserData.classificationRules ?? DEFAULT_CLASSIFICATION_RULES;
+  const labelMappings = updatedUserData.labelMappings;
+  const classificationRules = useMemo(() => [
+    ...labelMappingService.toClassificationRules(repositoryLabels, labelMappings ?? {}),
+    ...userClassificationRules,
+  ], [repositoryLabels, labelMappings, userClassificationRules]);
+  const classifiableIssues = useMemo(() => monitoredIssues.map(issue => ({
+    id: issue.id,
+    title: issue.title,
+    labels: issue.labels ?? [],
+    repository: issue.repositoryFullName,
+  })), [monitoredIssues]);
+  const allIssues = useMemo(() => monitoredIssues
+    .map((issue, index): Issue => {
+      const classification = classificationService.classify(classifiableIssues[index], classificationRules);
+      const difficultyEstimate = estimateDifficulty({
+        title: issue.title,
+        body: issue.body,
+        comments: issue.comments,
+        repositorySize: issue.repositorySize,
+        repositoryLanguage: issue.repositoryLanguage,
+        labelDifficulty: classification.matchedTerms.difficulty ? classification.difficulty : undefined,
+      });
+      return {
+        ...issue,
+        type: classification.category,
+        categories: classification.categories,
+        priority: classification.priority,
+        difficulty: difficultyEstimate.level,
+        difficultyEstimate,
+      };
+    })
+    .filter(issue => issue.categories.some(category => updatedUserData.issueTypes.includes(category))),
+  [monitoredIssues, classifiableIssues, classificationRules, updatedUserData.issueTypes]);
+  const loadMoreSentinel = useRef<HTMLDivElement>(null);
+
+  // Within a repository, search for the labels it uses for each selected category, falling
+  // back to the label itself when nothing is mapped to it
+  const resolveDiscoverLabels = useCallback((selected: string[], repository?: string) => {
+    const catalogue = repository ? repositoryLabels.get(repository) : undefined;
+    if (!repository || !catalogue) return selected.length > 0 ? selected : undefined;
+
+    const labels = (selected.length > 0 ? selected : ['good first issue']).flatMap(label => {
+      const mapped = labelMappingService.getLabelsForCategory(
+        label.replace(/\s+/g, '-'),
+        catalogue.map(repositoryLabel => repositoryLabel.name),
+        labelMappings?.[repository]
+      );
+      return mapped.length > 0 ? mapped : selected.includes(label) ? [label] : [];
+    });
+    return labels.length > 0 ? [...new Set(labels)] : undefined;
+  }, [repositoryLabels, labelMappings]);
+
+  const discoverFilters = useMemo((): DiscoverFilters => ({
+    languages: selectedLanguages,
+    labels: selectedLabels,
+    repository: selectedRepository || undefined,
+    primarySort: sortOptions.primary,
+    secondarySort: sortOptions.secondary,
+    minHealth,
+  }), [selectedLanguages, selectedLabels, selectedRepository, sortOptions, minHealth]);
+
+  // "Best match" fetches the most recently updated issues and ranks them client-side
+  const runSearch = useCallback((filters: DiscoverFilters) => {
+    const languages = filters.languages.length > 0 ? filters.languages : undefined;
+    const labels = resolveDiscoverLabels(filters.labels, filters.repository);
+    if (filters.primarySort === 'best') {
+      searchIssues(languages, labels, 'updated', undefined, filters.repository, exclusions);
+    } else {
+      searchIssues(languages, labels, filters.primarySort, filters.secondarySort, filters.repository, exclusions);
+    }
+    setSearchedRun(prev => ({ id: (prev?.id ?? 0) + 1, filters }));
+  }, [searchIssues, resolveDiscoverLabels, exclusions]);
+
+  const runDiscoverSearch = useCallback(() => runSearch(discoverFilters), [runSearch, discoverFilters]);
+
+  const runSavedSearch = (search: SavedSearch) => {
+    setSelectedLanguages(search.filters.languages);
+    setSelectedLabels(search.filters.labels);
+    setSelectedRepository(search.filters.repository ?? '');
+    setSortOptions({ primary: search.filters.primarySort, secondary: search.filters.secondarySort });
+    setMinHealth(search.filters.minHealth);
+    runSearch(search.filters);
+  };
+
+  const savedSearches = updatedUserData.savedSearches ?? EMPTY_SAVED_SEARCHES;
+  const alertingSearches = savedSearches.filter(search => search.watched && search.newMatches?.length);
+  const newMatchCount = alertingSearches.reduce((count, search) => count + (search.newMatches?.length ?? 0), 0);
+  const issueAlerts = updatedUserData.issueAlerts ?? EMPTY_ISSUE_ALERTS;
+
+  // Read when a refresh finishes, so changing preferences doesn't refetch
+  const notificationPreferencesRef = useRef(updatedUserData.notificationPreferences);
+  notificationPreferencesRef.current = updatedUserData.notificationPreferences;
+  // Only issues the Issues tab would list notify: those in a category the user follows
+  const issueTypes = updatedUserData.issueTypes;
+  const isMatchingIssue = useCallback((issue: ClassifiableIssue) =>
+    classificationService.classify(issue, classificationRules).categories.some(category => issueTypes.includes(category)),
+  [classificationRules, issueTypes]);
+  const isMatchingIssueRef = useRef(isMatchingIssue);
+  isMatchingIssueRef.current = isMatchingIssue;
+
+  // Watched searches read the latest filters, labels and exclusions at each check, so the
+  // schedule only restarts when the set of watched searches changes
+  const savedSearchesRef = useRef(savedSearches);
+  savedSearchesRef.current = savedSearches;
+  const resolveDiscoverLabelsRef = useRef(resolveDiscoverLabels);
+  resolveDiscoverLabelsRef.current = resolveDiscoverLabels;
+  const exclusionsRef = useRef(exclusions);
+  exclusionsRef.current = exclusions;
+  const watchedIds = savedSearches.filter(search => search.watched).map(search => search.id).join(',');
+
+  useEffect(() => {
+    if (!watchedIds) return;
+    const controller = new AbortController();
+
+    // One at a time to go easy on the search rate limit
+    const checkWatchedSearches = async () => {
+      for (const search of savedSearchesRef.current.filter(candidate => candidate.watched)) {
+        const { filters } = search;
+        const currentExclusions = exclusionsRef.current;
+        try {
+          // Most recently updated first and regardless of comment count, so newly opened and
+          // newly labelled issues are on the first page before anyone has commented
+          const page = await githubService.searchLatestBeginnerIssues(
+            filters.languages.length > 0 ? filters.languages : undefined,
+            resolveDiscoverLabelsRef.current(filters.labels, filters.repository),
+            filters.repository,
+            currentExclusions,
+            { signal: controller.signal }
+          );
+          // Hide what Discover would hide when the search is opened: health below the search's
+          // minimum, and forks, archived repositories and CLAs when excluded
+          const repositories = [...new Set(page.items.map(issue => issue.repository_url.split('/').slice(-2).join('/')))];
+          const [health, claRequirements] = await Promise.all([
+            filters.minHealth > 0 || needsRepositoryTraits(currentExclusions)
+              ? healthService.getHealth(repositories, { signal: controller.signal })
+              : undefined,
+            currentExclusions.cla ? githubService.getClaRequirements(repositories, { signal: controller.signal }) : undefined,
+          ]);
+          const issues = page.items.filter(issue => {
+            const repository = issue.repository_url.split('/').slice(-2).join('/');
+            const repositoryHealth = health?.get(repository);
+            if (isRepositoryExcluded(repository, currentExclusions, { ...repositoryHealth, requiresCla: claRequirements?.get(repository) })) return false;
+            return filters.minHealth === 0 || !repositoryHealth || repositoryHealth.score >= filters.minHealth;
+          });
+          updateUserData(prev => ({
+            savedSearches: prev.savedSearches?.map(candidate => candidate.id === search.id && candidate.watched
+              ? recordWatchedResults(candidate, issues)
+              : candidate),
+          }));
+        } catch (error) {
+          if (isAbortError(error)) return;
+          console.warn(`Failed to check watched search "${search.name}":`, error);
+        }
+      }
+    };
+
+    checkWatchedSearches();
+    const interval = setInterval(checkWatchedSearches, REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [watchedIds, updateUserData]);
+
+  const dismissWatchAlerts = (searchId?: string) => {
+    updateUserData(prev => ({
+      savedSearches: prev.savedSearches?.map(search => !searchId || search.id === searchId
+        ? { ...search, newMatches: undefined }
+        : search),
+    }));
+  };
+
+  const dismissIssueAlert = (change: IssueChange) => {
+    updateUserData(prev => ({
+      issueAlerts: prev.issueAlerts?.filter(alert =>
+        !(alert.issueId === change.issueId && alert.kind === change.kind && alert.detectedAt === change.detectedAt)
+      ),
+    }));
+  };
+
+  const dismissAllNotifications = () => {
+    updateUserData({ issueAlerts: undefined });
+    dismissWatchAlerts();
+  };
+
+  const openWatchedSearch = (search: SavedSearch) => {
+    setShowNotifications(false);
+    setActiveTab('discover');
+    hasInitialLoad.current = true;
+    runSavedSearch(search);
+  };
+
+  const bookmarks = updatedUserData.bookmarks ?? [];
+  const bookmarkedIds = new Set(bookmarks.map(bookmark => bookmark.issueId));
+
+  const toggleBookmark = (bookmark: Omit<Bookmark, 'addedAt'>) => {
+    updateUserData(prev => ({
+      bookmarks: prev.bookmarks?.some(candidate => candidate.issueId === bookmark.issueId)
+        ? prev.bookmarks.filter(candidate => candidate.issueId !== bookmark.issueId)
+        : [{ ...bookmark, addedAt: new Date().toISOString() }, ...(prev.bookmarks ?? [])],
+    }));
+  };
+
+  const digests = updatedUserData.digests ?? EMPTY_DIGESTS;
+  const unviewedDigest = digests.find(digest => !digest.viewedAt);
+
+  // Digests read what to cover when they run, so the schedule below only depends on what is due
+  const digestSourcesRef = useRef<DigestSources>({ repositories: [], bookmarks: [], issueTypes: [], rules: [] });
+  digestSourcesRef.current = {
+    repositories: monitoredNames,
+    bookmarks,
+    issueTypes: updatedUserData.issueTypes,
+    rules: classificationRules,
+  };
+
+  // Build the digest for a cadence's latest window, replacing an earlier one for the same window
+  const generateDigest = useCallback(async (cadence: DigestCadence, signal?: AbortSignal) => {
+    setGeneratingDigest(cadence);
+    setDigestError(null);
+    try {
+      const digest = await digestService.buildDigest(cadence, getLatestWindow(cadence), digestSourcesRef.current, { signal });
+      updateUserData(prev => ({
+        digests: [digest, ...(prev.digests ?? []).filter(candidate => candidate.id !== digest.id)].slice(0, MAX_DIGESTS),
+      }));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error(`Failed to build the ${cadence} digest:`, error);
+      setDigestError(toGitHubError(error, `Failed to build the ${cadence} digest`).message);
+    } finally {
+      if (!signal?.aborted) setGeneratingDigest(null);
+    }
+  }, [updateUserData]);
+
+  // Produce any digest whose window has passed since the last one, e.g. on opening the app in the morning
+  const dueDigests = getDueCadences(updatedUserData.notificationPreferences, digests).join(',');
+  useEffect(() => {
+    if (!dueDigests) return;
+    const controller = new AbortController();
+    const generateDue = async () => {
+      for (const cadence of dueDigests.split(',') as DigestCadence[]) {
+        await generateDigest(cadence, controller.signal);
+        if (controller.signal.aborted) return;
+      }
+    };
+
+    generateDue();
+    return () => controller.abort();
+  }, [dueDigests, generateDigest]);
+
+  const markDigestViewed = useCallback((id: string) => {
+    updateUserData(prev => ({
+      digests: prev.digests?.map(digest => (digest.id === id ? { ...digest, viewedAt: new Date().toISOString() } : digest)),
+    }));
+  }, [updateUserData]);
+
+  const saveCurrentSearch = (name: string) => {
+    const search = createSavedSearch(name, discoverFilters);
+    // The results on screen already answer the new search
+    const shown = searchedFilters && isSameSearch(searchedFilters, discoverFilters) && !beginnerLoading && !beginnerError;
+    updateUserData(prev => ({
+      savedSearches: [
+        ...(prev.savedSearches ?? []),
+        shown
+          ? { ...search, lastRunAt: new Date().toISOString(), resultCount: beginnerTotalCount, resultCountApproximate: beginnerApproximateTotal }
+          : search,
+      ],
+    }));
+  };
+
+  // Once a run's results are in, stamp every saved search with the same filters
+  const recordedRun = useRef<number | null>(null);
+  useEffect(() => {
+    if (!searchedRun || beginnerLoading || recordedRun.current === searchedRun.id) return;
+    recordedRun.current = searchedRun.id;
+    if (beginnerError) return;
+
+    const lastRunAt = new Date().toISOString();
+    updateUserData(prev => ({
+      savedSearches: prev.savedSearches?.map(search => isSameSearch(search.filters, searchedRun.filters)
+        ? { ...search, lastRunAt, resultCount: beginnerTotalCount, resultCountApproximate: beginnerApproximateTotal }
+        : search),
+    }));
+  }, [searchedRun, beginnerLoading, beginnerError, beginnerTotalCount, beginnerApproximateTotal, updateUserData]);
+
   // Load default issues when Discover tab is first accessed
   useEffect(() => {
     if (activeTab === 'discover' && !hasInitialLoad.current) {
-      searchIssues(selectedLanguage, selectedLabel, sortOptions.primary, sortOptions.secondary);
+      runDiscoverSearch();
       hasInitialLoad.current = true;
     }
-  }, [activeTab, searchIssues, selectedLanguage, selectedLabel, sortOptions]);
+  }, [activeTab, runDiscoverSearch]);
+
+  // Infinite scroll: fetch the next page once the end of the Discover list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreSentinel.current;
+    if (activeTab !== 'discover' || !beginnerHasMore || !sentinel) return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        loadMoreBeginnerIssues();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [activeTab, beginnerHasMore, beginnerLoading, loadMoreBeginnerIssues]);
 
   const popularLanguages = ['JavaScript', 'TypeScript', 'Python', 'Java', 'Go', 'Rust', 'C++', 'C#', 'PHP', 'Ruby'];
   const beginnerLabels = ['good first issue', 'beginner-friendly', 'documentation', 'help wanted', 'easy', 'starter'];
@@ -90,70 +486,145 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
   ];
 
   // Optimized fetch function with better error handling
-  const fetchAllIssues = useCallback(async () => {
-    if (!userData.repositories || userData.repositories.length === 0) {
+  const fetchAllIssues = useCallback(async (force = false) => {
+    const repositories = updatedUserData.repositories;
+    if (!repositories || repositories.length === 0) {
       setLoading(false);
       return;
     }
 
+    const signal = startIssuesRequest();
     setLoading(true);
     try {
-      // Fetch issues in smaller batches to improve performance
-      const batchSize = 3;
-      const batches = [];
-      
-      for (let i = 0; i < userData.repositories.length; i += batchSize) {
-        const batch = userData.repositories.slice(i, i + batchSize);
-        batches.push(batch);
-      }
+      // One GraphQL round trip per batch of repositories (REST fallback is handled by the service)
+      const fullNames = repositories.map(repo => repo.full_name);
+      // Shared through the query cache so remounting the dashboard reuses a recent result
+      const [results, pullRequestResults] = await queryCache.fetch<[RepositoryIssuesResult[], RepositoryPullRequestsResult[]]>(
+        ['monitoredIssues', ...fullNames],
+        ({ signal: querySignal }) => Promise.all([
+          githubService.getIssuesForRepositories(fullNames, { signal: querySignal }),
+          githubService.getPullRequestsForRepositories(fullNames, { signal: querySignal }),
+        ]),
+        { force }
+      );
+      if (signal.aborted) return;
 
-      const allIssuesData: Issue[] = [];
-      
-      for (const batch of batches) {
-        const batchPromises = batch.map(async (repo) => {
-          try {
-            const [owner, repoName] = repo.full_name.split('/');
-            const githubIssues = await githubService.getRepositoryIssues(owner, repoName);
-            
-            return githubIssues.slice(0, 20).map(issue => ({ // Limit to 20 issues per repo
-              id: issue.id,
-              title: issue.title,
-              type: githubService.categorizeIssue(issue),
-              priority: githubService.getPriorityFromIssue(issue),
-              difficulty: githubService.getDifficultyFromIssue(issue),
-              status: issue.state,
-              createdAt: new Date(issue.created_at).toLocaleDateString(),
-              repository: repo.name,
-              repositoryFullName: repo.full_name,
-              url: issue.html_url,
-              author: issue.user.login,
-              labels: issue.labels.map(l => l.name),
-              comments: issue.comments,
-              assignee: issue.assignee,
-            }));
-          } catch (error) {
-            console.warn(`Failed to fetch issues for ${repo.full_name}:`, error);
-            return [];
+      const missing: string[] = [];
+      const errors: GitHubError[] = [];
+      const repositoryIssues = results.flatMap(({ repository, issues, error }) => {
+        if (error) {
+          console.warn(`Failed to fetch issues for ${repository}:`, error);
+          if (error instanceof NotFoundError) {
+            missing.push(repository);
+          } else {
+            errors.push(error);
           }
-        });
+          return [];
+        }
+
+        const repo = repositories.find(r => r.full_name === repository)!;
+        return issues.map(issue => ({ issue, repo }));
+      });
+
+      // Issues from the GraphQL batch carry their timeline, so this only fetches for REST fallbacks
+      const claims = await claimService.resolveClaims(repositoryIssues.map(({ issue }) => issue), { signal });
+      if (signal.aborted) return;
+
+      const allIssuesData: UnclassifiedIssue[] = repositoryIssues.map(({ issue, repo }) => ({
+        id: issue.id,
+        number: issue.number,
+        title: issue.title,
+        status: issue.state,
+        createdAt: new Date(issue.created_at).toLocaleDateString(),
+        repository: repo.name,
+        repositoryFullName: repo.full_name,
+        url: issue.html_url,
+        author: issue.user.login,
+        labels: issue.labels.map(l => l.name),
+        body: issue.body ?? undefined,
+        comments: issue.comments,
+        assignee: issue.assignee,
+        updatedAt: issue.updated_at,
+        reactions: issue.reactions?.total_count,
+        repositoryLanguage: repo.language,
+        repositoryStars: repo.stargazers_count,
+        repositorySize: repo.size,
+        linkedPullRequests: issue.linked_pull_requests?.map(pr => ({
+          number: pr.number,
+          url: pr.html_url,
+          state: pr.state,
+        })),
+        claim: claims.get(issue.id),
+      }));
+
+      // Issue failures are already reported above, so PR failures are only logged
+      const allPullRequests: PullRequest[] = pullRequestResults.flatMap(({ repository, pullRequests: repoPullRequests, error }) => {
+        if (error) {
+          console.warn(`Failed to fetch pull requests for ${repository}:`, error);
+          return [];
+        }
 
-        const batchResults = await Promise.all(batchPromises);
-        allIssuesData.push(...batchResults.flat());
+        const repo = repositories.find(r => r.full_name === repository)!;
+        return repoPullRequests.map(pr => ({
+          id: pr.id,
+          number: pr.number,
+          title: pr.title,
+          status: pr.merged_at ? 'merged' : pr.state,
+          draft: pr.draft,
+          createdAt: new Date(pr.created_at).toLocaleDateString(),
+          updatedAt: pr.updated_at,
+          repository: repo.name,
+          repositoryFullName: repo.full_name,
+          url: pr.html_url,
+          author: pr.user.login,
+          labels: pr.labels.map(l => l.name),
+          comments: pr.comments,
+          reviewDecision: pr.review_decision,
+          closingIssueNumbers: pr.closing_issue_numbers,
+        }));
+      });
+
+      // Compare with the last refresh for the bell and desktop notifications
+      const { changes, snapshot } = diffIssueSnapshot(notificationService.loadSnapshot(), results);
+      notificationService.saveSnapshot(snapshot);
+      const preferences = notificationPreferencesRef.current;
+      const matching = new Set(allIssuesData
+        .filter(issue => isMatchingIssueRef.current({ title: issue.title, labels: issue.labels ?? [], repository: issue.repositoryFullName }))
+        .map(issue => issue.id));
+      const wanted = changes.filter(change => matching.has(change.issueId) && wantsIssueChange(change, preferences));
+      if (wanted.length > 0) {
+        updateUserData(prev => ({ issueAlerts: [...wanted, ...(prev.issueAlerts ?? [])].slice(0, MAX_ISSUE_ALERTS) }));
+        notificationService.notify(wanted, preferences);
       }
 
-      // Filter issues based on user preferences
-      const filteredIssues = allIssuesData.filter(issue => 
-        userData.issueTypes.includes(issue.type)
+      setMonitoredIssues(allIssuesData);
+      setPullRequests(allPullRequests.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()));
+      setMissingRepositories(missing);
+      // Surface the failure the user can act on first
+      setFetchError(
+        errors.find(e => e instanceof AuthError)
+        ?? errors.find(e => e instanceof RateLimitError)
+        ?? errors[0]
+        ?? null
       );
-      
-      setAllIssues(filteredIssues);
       setLastRefresh(new Date());
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to fetch issues:', error);
+      setFetchError(toGitHubError(error, 'Failed to fetch issues'));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
-  }, [userData.repositories, userData.issueTypes]);
+  }, [updatedUserData.repositories, startIssuesRequest, updateUserData]);
+
+  // fetchAllIssues reads the monitored issues from the cache directly, so hold a subscription
+  // for it: the request is aborted on unmount or when the repositories change, and the entry
+  // for a previous set of repositories can be collected
+  const monitoredIssuesKey = useMemo(
+    () => ['monitoredIssues', ...(updatedUserData.repositories ?? []).map(repo => repo.full_name)],
+    [updatedUserData.repositories]
+  );
+  useEffect(() => queryCache.subscribe(monitoredIssuesKey, () => {}), [monitoredIssuesKey]);
 
   // Initial load
   useEffect(() => {
@@ -162,13 +633,20 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
       
       // Set up auto-refresh every 2 minutes
       const interval = setInterval(() => {
-        fetchAllIssues();
-      }, 2 * 60 * 1000); // 2 minutes
+        fetchAllIssues(true);
+      }, REFRESH_INTERVAL_MS);
       
       return () => clearInterval(interval);
     }
   }, [fetchAllIssues, updatedUserData.repositories]);
 
+  // Tick once a second while rate limited so the countdown stays current
+  useEffect(() => {
+    if (!(fetchError instanceof RateLimitError)) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [fetchError]);
+
   const getIssueIcon = (type: string) => {
     switch (type) {
       case 'good-first-issue': return Heart;
@@ -200,39 +678,164 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
     }
   };
 
-  const getDifficultyColor = (difficulty: string | undefined) => {
-    switch (difficulty) {
-      case 'beginner': return 'text-green-400 bg-green-500/20 border-green-500/30';
-      case 'intermediate': return 'text-yellow-400 bg-yellow-500/20 border-yellow-500/30';
-      case 'advanced': return 'text-red-400 bg-red-500/20 border-red-500/30';
-      default: return 'text-slate-400 bg-slate-500/20 border-slate-500/30';
-    }
+  // Issues whose claim has not been resolved yet are treated as available
+  const isClaimed = (claim?: IssueClaim) => Boolean(claim && claim.status !== 'available');
+
+  // Repositories whose health is still being checked stay visible until their score arrives
+  const visibleBeginnerIssues = beginnerIssues.filter(issue => {
+    if (hideClaimed && isClaimed(beginnerClaims.get(issue.id))) return false;
+    const repository = issue.repository_url.split('/').slice(-2).join('/');
+    // Catches exclusions that did not fit in the query and ones added since the search ran
+    if (isRepositoryExcluded(repository, exclusions, { ...discoverHealth.get(repository), requiresCla: claRequirements.get(repository) })) return false;
+    const health = minHealth > 0 ? discoverHealth.get(repository) : undefined;
+    return !health || health.score >= minHealth;
+  });
+
+  const renderBookmarkButton = (bookmark: Omit<Bookmark, 'addedAt'>) => {
+    const bookmarked = bookmarkedIds.has(bookmark.issueId);
+    const Icon = bookmarked ? BookmarkCheck : BookmarkPlus;
+    return (
+      <button
+        onClick={() => toggleBookmark(bookmark)}
+        aria-pressed={bookmarked}
+        title={bookmarked ? 'Remove bookmark' : 'Bookmark to follow in digests'}
+        className={`transition-colors ${bookmarked ? 'text-blue-400' : 'text-slate-400 hover:text-white'}`}
+      >
+        <Icon className="h-4 w-4" />
+      </button>
+    );
+  };
+
+  const hideFromDiscover = (kind: 'repositories' | 'organizations', name: string) => {
+    updateUserData({ exclusions: addExclusion(exclusions, kind, name) });
+    setLastHidden({ kind, name });
+  };
+
+  const undoHide = () => {
+    if (!lastHidden) return;
+    updateUserData({ exclusions: removeExclusion(exclusions, lastHidden.kind, lastHidden.name) });
+    setLastHidden(null);
+  };
+
+  const renderClaimBadge = (claim?: IssueClaim) => {
+    if (!claim) return null;
+
+    const styles = {
+      available: { label: 'Available', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+      claimed: { label: 'Claimed', className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' },
+      'in-review': { label: 'In review', className: 'bg-purple-500/20 text-purple-400 border-purple-500/30' },
+    }[claim.status];
+
+    return (
+      <span
+        className={`text-xs px-3 py-1 rounded-full border ${styles.className}`}
+        title={claim.evidence.map(item => item.description).join('\n') || undefined}
+      >
+        {styles.label}
+      </span>
+    );
+  };
+
+  // Links to what made an issue count as claimed: pull requests, claim comments and assignees
+  const renderClaimEvidence = (claim?: IssueClaim) => {
+    if (!claim || claim.evidence.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+        {claim.evidence.slice(0, 3).map((item, index) => {
+          const Icon = item.kind === 'pull-request' ? GitPullRequest : item.kind === 'comment' ? Bell : Users;
+          const content = (
+            <>
+              <Icon className="h-3 w-3 flex-shrink-0" />
+              <span className="truncate max-w-xs">{item.description}</span>
+            </>
+          );
+          return item.url ? (
+            <a
+              key={index}
+              href={item.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+            >
+              {content}
+            </a>
+          ) : (
+            <span key={index} className="text-xs text-slate-400 flex items-center space-x-1">
+              {content}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderHideClaimedToggle = () => (
+    <button
+      onClick={() => setHideClaimed(prev => !prev)}
+      aria-pressed={hideClaimed}
+      className={`flex items-center space-x-2 px-4 py-2 rounded-full border text-sm font-medium transition-colors ${
+        hideClaimed
+          ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+          : 'glass-effect text-slate-400 border-slate-700/50 hover:text-white'
+      }`}
+    >
+      <EyeOff className="h-4 w-4" />
+      <span>Hide claimed</span>
+    </button>
+  );
+
+  // Order a list with the user's ranking weights, keeping each issue's breakdown for its card
+  const rankIssues = <T extends { id: number }>(issues: T[], toInput: (issue: T) => RankingInput) => {
+    const ranked = rankingEngine.rank(issues, toInput, rankingWeights, rankingContext);
+    return {
+      issues: ranked.map(({ item }) => item),
+      rankings: new Map<number, IssueRanking>(ranked.map(({ item, ranking }) => [item.id, ranking])),
+    };
   };
 
+  const issueToRankingInput = (issue: Issue): RankingInput => ({
+    updatedAt: issue.updatedAt ?? issue.createdAt,
+    comments: issue.comments ?? 0,
+    reactions: issue.reactions,
+    labels: issue.labels ?? [],
+    language: issue.repositoryLanguage,
+    repositoryStars: issue.repositoryStars,
+    repositoryHealth: issue.repositoryFullName ? monitoredHealth.get(issue.repositoryFullName)?.score : undefined,
+  });
+
+  const discoverToRankingInput = (issue: GitHubIssue): RankingInput => ({
+    ...toRankingInput(issue),
+    // Search results carry no repository language, but filtering on a single language pins it
+    language: selectedLanguages.length === 1 ? selectedLanguages[0] : undefined,
+    repositoryHealth: discoverHealth.get(issue.repository_url.split('/').slice(-2).join('/'))?.score,
+  });
+
+  const { issues: discoverIssues, rankings: discoverRankings } = sortOptions.primary === 'best'
+    ? rankIssues(visibleBeginnerIssues, discoverToRankingInput)
+    : { issues: visibleBeginnerIssues, rankings: new Map<number, IssueRanking>() };
+
   const openIssues = allIssues
     .filter(issue => issue.status === 'open')
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
     
-  const beginnerFriendlyIssues = allIssues
-    .filter(issue => 
+  const { issues: beginnerFriendlyIssues, rankings: beginnerRankings } = rankIssues(
+    allIssues.filter(issue => 
       issue.status === 'open' && 
-      ['good-first-issue', 'beginner-friendly', 'documentation'].includes(issue.type)
-    )
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      issue.categories.some(category => ['good-first-issue', 'beginner-friendly', 'documentation'].includes(category)) &&
+      !(hideClaimed && isClaimed(issue.claim))
+    ),
+    issueToRankingInput
+  );
     
-  const notifications = beginnerFriendlyIssues.slice(0, 10);
-
   const refreshData = async () => {
     setRefreshing(true);
-    await fetchAllIssues();
+    await fetchAllIssues(true);
     setRefreshing(false);
   };
 
   const handleRepositoriesChange = (repositories: any[]) => {
-    const newUserData = { ...updatedUserData, repositories };
-    setUpdatedUserData(newUserData);
-    // Save to localStorage
-    localStorage.setItem('giteasy_user_data', JSON.stringify(newUserData));
+    updateUserData({ repositories });
   };
 
   const handleRemoveRepository = (repoId: number) => {
@@ -240,24 +843,99 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
     handleRepositoriesChange(newRepositories);
   };
 
+  const handleRemoveMissingRepository = (fullName: string) => {
+    const newRepositories = updatedUserData.repositories?.filter(repo => repo.full_name !== fullName) || [];
+    handleRepositoriesChange(newRepositories);
+    setMissingRepositories(prev => prev.filter(name => name !== fullName));
+  };
+
+  const formatCountdown = (resetAt: Date) => {
+    const seconds = Math.max(0, Math.ceil((resetAt.getTime() - now) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  const renderFetchErrors = () => (
+    <div className="space-y-4 mb-8">
+      {fetchError && (
+        <div className="p-4 bg-red-500/20 border border-red-500/30 rounded-xl flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <AlertTriangle className="h-5 w-5 text-red-400 flex-shrink-0" />
+            <span className="text-red-300 text-sm">
+              {fetchError instanceof AuthError
+                ? 'GitHub rejected your token. It may have expired or been revoked.'
+                : fetchError instanceof RateLimitError
+                  ? `GitHub rate limit reached. Refreshing resumes in ${formatCountdown(fetchError.resetAt)}.`
+                  : fetchError instanceof NetworkError
+                    ? 'Could not reach GitHub. Showing the last loaded issues.'
+                    : fetchError.message}
+            </span>
+          </div>
+          {fetchError instanceof AuthError && (
+            <button
+              onClick={handleLogout}
+              className="bg-gradient-to-r from-red-600 to-red-700 text-white px-4 py-2 rounded-xl hover:from-red-700 hover:to-red-800 transition-all duration-300 text-sm font-medium flex items-center space-x-2"
+            >
+              <LogOut className="h-4 w-4" />
+              <span>Reconnect GitHub</span>
+            </button>
+          )}
+        </div>
+      )}
+      {missingRepositories.map(fullName => (
+        <div key={fullName} className="p-4 bg-yellow-500/20 border border-yellow-500/30 rounded-xl flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-400 flex-shrink-0" />
+            <span className="text-yellow-300 text-sm">
+              {fullName} no longer exists or is no longer accessible.
+            </span>
+          </div>
+          <button
+            onClick={() => handleRemoveMissingRepository(fullName)}
+            className="text-yellow-300 hover:text-white px-4 py-2 rounded-xl hover:bg-yellow-500/20 transition-colors text-sm font-medium flex items-center space-x-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Stop monitoring</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
   const handleDiscoverSearch = () => {
-    searchIssues(selectedLanguage, selectedLabel, sortOptions.primary, sortOptions.secondary);
+    runDiscoverSearch();
   };
 
   const handleLogout = () => {
+    notificationService.clearSnapshot();
     logout();
     onLogout();
   };
 
   const renderOverview = () => (
     <div className="space-y-8">
+      {unviewedDigest && (
+        <div className="glass-dark rounded-2xl border border-blue-500/30 p-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Newspaper className="h-5 w-5 text-blue-400" />
+            <span className="text-white text-sm">
+              Your {unviewedDigest.cadence} digest for {formatDigestWindow(unviewedDigest)} is ready · {unviewedDigest.items.length} updates
+            </span>
+          </div>
+          <button
+            onClick={() => setActiveTab('digests')}
+            className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            Read it
+          </button>
+        </div>
+      )}
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         {[
           { label: 'Repositories', value: userData.repositories?.length || 0, icon: Github, color: 'from-blue-500 to-cyan-500' },
           { label: 'Beginner Issues', value: beginnerFriendlyIssues.length, icon: Heart, color: 'from-pink-500 to-rose-500' },
           { label: 'Open Issues', value: openIssues.length, icon: AlertTriangle, color: 'from-orange-500 to-amber-500' },
-          { label: 'Notifications', value: notifications.length, icon: Bell, color: 'from-purple-500 to-violet-500' }
+          { label: 'Notifications', value: issueAlerts.length + newMatchCount, icon: Bell, color: 'from-purple-500 to-violet-500' }
         ].map((stat, index) => (
           <div key={index} className="group relative">
             <div className="absolute inset-0 bg-gradient-to-r opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-2xl blur-xl" 
@@ -287,6 +965,23 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
           </div>
         </div>
         <div className="flex items-center space-x-4">
+          {([['core', 'API'], ['search', 'Search']] as const).map(([resource, label]) => {
+            const budget = rateLimit[resource];
+            if (!budget) return null;
+            const low = budget.remaining < budget.limit * 0.1;
+            return (
+              <div
+                key={resource}
+                className="glass-effect px-4 py-2 rounded-full border border-slate-700/50 text-sm"
+                title={`${budget.used} of ${budget.limit} ${label.toLowerCase()} calls used`}
+              >
+                <span className={low ? 'text-red-400 font-medium' : 'text-white font-medium'}>
+                  {label}: {budget.remaining.toLocaleString()}/{budget.limit.toLocaleString()}
+                </span>
+                <span className="text-slate-400"> • resets {budget.resetAt.toLocaleTimeString()}</span>
+              </div>
+            );
+          })}
           <div className="flex items-center space-x-2 glass-effect px-4 py-2 rounded-full border border-slate-700/50">
             <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
             <span className="text-white font-medium text-sm">Auto-refresh enabled</span>
@@ -315,9 +1010,12 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                 <p className="text-slate-400 text-sm">Curated opportunities for new contributors</p>
               </div>
             </div>
-            <span className="glass-effect px-4 py-2 rounded-full text-white font-medium border border-slate-700/50">
-              {beginnerFriendlyIssues.length} issues
-            </span>
+            <div className="flex items-center space-x-3">
+              {renderHideClaimedToggle()}
+              <span className="glass-effect px-4 py-2 rounded-full text-white font-medium border border-slate-700/50">
+                {beginnerFriendlyIssues.length} issues
+              </span>
+            </div>
           </div>
         </div>
         
@@ -355,21 +1053,17 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                           {issue.repository} • by {issue.author} • {issue.createdAt}
                         </p>
                         <div className="flex items-center space-x-3">
-                          <span className={`px-3 py-1 text-xs font-medium rounded-full border ${getDifficultyColor(issue.difficulty)}`}>
-                            {issue.difficulty}
-                          </span>
+                          <DifficultyBadge difficulty={issue.difficulty} estimate={issue.difficultyEstimate} />
                           {issue.comments !== undefined && (
                             <span className="text-xs text-slate-400 flex items-center space-x-1">
                               <Users className="h-3 w-3" />
                               <span>{issue.comments} comments</span>
                             </span>
                           )}
-                          {!issue.assignee && (
-                            <span className="text-xs bg-green-500/20 text-green-400 px-3 py-1 rounded-full border border-green-500/30">
-                              Available
-                            </span>
-                          )}
+                          {renderClaimBadge(issue.claim)}
                         </div>
+                        {renderClaimEvidence(issue.claim)}
+                        {beginnerRankings.has(issue.id) && <RankingBreakdown ranking={beginnerRankings.get(issue.id)!} />}
                       </div>
                     </div>
                   </div>
@@ -389,6 +1083,72 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
     </div>
   );
 
+  // Toggleable chips for one multi-select Discover filter; nothing selected means no filter
+  const renderFilterChips = (
+    title: string,
+    options: string[],
+    selected: string[],
+    onChange: (values: string[]) => void
+  ) => (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-white font-semibold">{title}</label>
+        {selected.length > 0 && (
+          <button onClick={() => onChange([])} className="text-xs text-slate-400 hover:text-white transition-colors">
+            Clear ({selected.length})
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => {
+          const isSelected = selected.includes(option);
+          return (
+            <button
+              key={option}
+              onClick={() => onChange(isSelected ? selected.filter(value => value !== option) : [...selected, option])}
+              aria-pressed={isSelected}
+              className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                isSelected
+                  ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                  : 'glass-effect text-slate-400 border-slate-700/50 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  // Only worth showing when the search was split or part of it failed
+  const renderQueryReports = () => {
+    if (beginnerLoading || (beginnerQueries.length < 2 && !beginnerQueries.some(report => report.error))) return null;
+
+    return (
+      <div className="px-6 py-3 border-b border-slate-700/50 space-y-1">
+        <p className="text-xs text-slate-400">
+          Merged from {beginnerQueries.length} {beginnerQueries.length === 1 ? 'search' : 'searches'}:
+        </p>
+        {beginnerQueries.map(report => (
+          <div key={report.query} className="flex items-center justify-between text-xs">
+            <code className="text-slate-300 truncate mr-4" title={report.query}>{report.query}</code>
+            {report.error ? (
+              <span className="text-red-400 flex items-center space-x-1 flex-shrink-0" title={report.error.message}>
+                <AlertTriangle className="h-3 w-3" />
+                <span>Failed</span>
+              </span>
+            ) : (
+              <span className="text-slate-400 flex-shrink-0">
+                {report.itemCount.toLocaleString()} loaded of {report.totalCount.toLocaleString()}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   const renderDiscover = () => (
     <div className="space-y-8">
       <div className="flex items-center justify-between">
@@ -402,36 +1162,33 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
         </div>
       </div>
 
+      <SavedSearches
+        searches={savedSearches}
+        activeId={savedSearches.find(search => isSameSearch(search.filters, discoverFilters))?.id}
+        onRun={runSavedSearch}
+        onSave={saveCurrentSearch}
+        onSearchesChange={searches => updateUserData({ savedSearches: searches })}
+      />
+
       {/* Search Filters */}
-      <div className="glass-dark rounded-2xl border border-slate-700/50 p-6">
+      <div className="glass-dark rounded-2xl border border-slate-700/50 p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {renderFilterChips('Languages', popularLanguages, selectedLanguages, setSelectedLanguages)}
+          {renderFilterChips('Labels', allIssueLabels, selectedLabels, setSelectedLabels)}
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div className="md:col-span-1">
             <label className="block text-white font-semibold mb-3">
-              Language
-            </label>
-            <select
-              value={selectedLanguage}
-              onChange={(e) => setSelectedLanguage(e.target.value)}
-              className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-slate-800/50"
-            >
-              <option value="">All Languages</option>
-              {popularLanguages.map(lang => (
-                <option key={lang} value={lang}>{lang}</option>
-              ))}
-            </select>
-          </div>
-          <div className="md:col-span-1">
-            <label className="block text-white font-semibold mb-3">
-              Label
+              Repository
             </label>
             <select
-              value={selectedLabel}
-              onChange={(e) => setSelectedLabel(e.target.value)}
+              value={selectedRepository}
+              onChange={(e) => setSelectedRepository(e.target.value)}
               className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-slate-800/50"
             >
-              <option value="">All Labels</option>
-              {allIssueLabels.map(label => (
-                <option key={label} value={label}>{label}</option>
+              <option value="">All of GitHub</option>
+              {monitoredNames.map(name => (
+                <option key={name} value={name}>{name}</option>
               ))}
             </select>
           </div>
@@ -443,12 +1200,13 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
               value={sortOptions.primary}
               onChange={(e) => setSortOptions(prev => ({ 
                 ...prev, 
-                primary: e.target.value as 'updated' | 'stars' | 'created',
+                primary: e.target.value as 'best' | 'updated' | 'stars' | 'created',
                 // Reset secondary if it's the same as primary
                 secondary: prev.secondary === e.target.value ? undefined : prev.secondary
               }))}
               className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-slate-800/50"
             >
+              <option value="best">Best Match</option>
               <option value="updated">Most Recent</option>
               <option value="stars">Most Stars</option>
               <option value="created">Newest</option>
@@ -460,6 +1218,7 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
             </label>
             <select
               value={sortOptions.secondary || ''}
+              disabled={sortOptions.primary === 'best'}
               onChange={(e) => setSortOptions(prev => ({ 
                 ...prev, 
                 secondary: e.target.value ? e.target.value as 'updated' | 'stars' | 'created' : undefined
@@ -472,6 +1231,20 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
               {sortOptions.primary !== 'created' && <option value="created">Newest</option>}
             </select>
           </div>
+          <div className="md:col-span-1">
+            <label className="block text-white font-semibold mb-3">
+              Repo Health
+            </label>
+            <select
+              value={minHealth}
+              onChange={(e) => setMinHealth(Number(e.target.value))}
+              className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-slate-800/50"
+            >
+              <option value={0}>Any</option>
+              <option value={HEALTH_THRESHOLDS.fair}>Fair or better</option>
+              <option value={HEALTH_THRESHOLDS.healthy}>Healthy only</option>
+            </select>
+          </div>
           <div className="flex items-end">
             <button
               onClick={handleDiscoverSearch}
@@ -487,9 +1260,41 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
 
       {/* Discovered Issues */}
       <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
-        <div className="p-6 border-b border-slate-700/50">
+        <div className="p-6 border-b border-slate-700/50 flex items-center justify-between">
           <h3 className="text-xl font-bold text-white">Discovered Issues</h3>
+          <div className="flex items-center space-x-4">
+            {discoverHealthLoading && (
+              <span className="text-sm text-slate-400 flex items-center space-x-2">
+                <Activity className="h-4 w-4 animate-pulse" />
+                <span>Checking repository health...</span>
+              </span>
+            )}
+            {!beginnerLoading && beginnerTotalCount > 0 && (
+              <span className="text-sm text-slate-400">
+                Showing {beginnerIssues.length.toLocaleString()} of {formatResultCount(beginnerTotalCount, beginnerApproximateTotal)} matches
+              </span>
+            )}
+            {renderHideClaimedToggle()}
+          </div>
         </div>
+        {renderQueryReports()}
+        {lastHidden && (
+          <div className="px-6 py-3 bg-blue-500/10 border-b border-blue-500/30 text-blue-400 text-sm flex items-center justify-between">
+            <span className="flex items-center space-x-2">
+              <EyeOff className="h-4 w-4 flex-shrink-0" />
+              <span>
+                Hid {lastHidden.kind === 'repositories' ? 'repository' : 'owner'} {lastHidden.name}. Manage hidden repositories in Settings.
+              </span>
+            </span>
+            <button onClick={undoHide} className="font-medium hover:text-blue-300 transition-colors">Undo</button>
+          </div>
+        )}
+        {beginnerIncomplete && !beginnerLoading && (
+          <div className="px-6 py-3 bg-yellow-500/10 border-b border-yellow-500/30 text-yellow-400 text-sm flex items-center space-x-2">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>GitHub timed out before finding every match, so some issues may be missing. Try narrowing the search.</span>
+          </div>
+        )}
         {beginnerLoading ? (
           <div className="flex items-center justify-center py-16">
             <div className="flex items-center space-x-3">
@@ -499,7 +1304,7 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
           </div>
         ) : (
           <div className="divide-y divide-slate-700/50 max-h-96 overflow-y-auto custom-scrollbar">
-            {beginnerIssues.map((issue) => (
+            {discoverIssues.map((issue) => (
               <div key={issue.id} className="p-6 hover:bg-slate-800/50 transition-all duration-300 group">
                 <div className="flex items-start justify-between">
                   <div className="flex items-start space-x-4 flex-1">
@@ -517,20 +1322,41 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                         >
                           <ExternalLink className="h-4 w-4" />
                         </a>
+                        {renderBookmarkButton({
+                          issueId: issue.id,
+                          repository: issue.repository_url.split('/').slice(-2).join('/'),
+                          number: issue.number,
+                          title: issue.title,
+                          url: issue.html_url,
+                        })}
                       </div>
                       <p className="text-slate-400 text-sm mb-3">
                         {issue.repository_url.split('/').slice(-2).join('/')} • by {issue.user.login} • {new Date(issue.created_at).toLocaleDateString()}
                       </p>
                       <div className="flex items-center space-x-3 mb-3">
-                        {(issue as any).repository_stars && (
+                        {issue.repository_stars !== undefined && (
                           <span className="text-xs bg-yellow-500/20 text-yellow-400 px-3 py-1 rounded-full border border-yellow-500/30 flex items-center space-x-1">
                             <Star className="h-3 w-3" />
-                            <span>{((issue as any).repository_stars).toLocaleString()}</span>
+                            <span>{issue.repository_stars.toLocaleString()}</span>
                           </span>
                         )}
                         <span className="text-xs text-slate-400">
                           Updated {new Date(issue.updated_at).toLocaleDateString()}
                         </span>
+                        <button
+                          onClick={() => hideFromDiscover('repositories', issue.repository_url.split('/').slice(-2).join('/'))}
+                          className="text-xs text-slate-500 hover:text-white transition-colors flex items-center space-x-1"
+                        >
+                          <EyeOff className="h-3 w-3" />
+                          <span>Hide repo</span>
+                        </button>
+                        <button
+                          onClick={() => hideFromDiscover('organizations', issue.repository_url.split('/').slice(-2)[0])}
+                          className="text-xs text-slate-500 hover:text-white transition-colors flex items-center space-x-1"
+                        >
+                          <EyeOff className="h-3 w-3" />
+                          <span>Hide owner</span>
+                        </button>
                       </div>
                       {issue.labels && issue.labels.length > 0 && (
                         <div className="flex flex-wrap gap-2">
@@ -544,6 +1370,8 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                           ))}
                         </div>
                       )}
+                      {renderClaimEvidence(beginnerClaims.get(issue.id))}
+                      {discoverRankings.has(issue.id) && <RankingBreakdown ranking={discoverRankings.get(issue.id)!} />}
                     </div>
                   </div>
                   <div className="flex items-center space-x-3">
@@ -551,15 +1379,36 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                       <Users className="h-3 w-3" />
                       <span>{issue.comments}</span>
                     </span>
-                    {!issue.assignee && (
-                      <span className="text-xs bg-green-500/20 text-green-400 px-3 py-1 rounded-full border border-green-500/30">
-                        Available
-                      </span>
-                    )}
+                    {renderClaimBadge(beginnerClaims.get(issue.id))}
                   </div>
                 </div>
               </div>
             ))}
+            {beginnerHasMore && (
+              <div ref={loadMoreSentinel} className="p-6 flex justify-center">
+                <button
+                  onClick={loadMoreBeginnerIssues}
+                  disabled={beginnerLoadingMore}
+                  className="glass-effect text-slate-300 px-6 py-2 rounded-xl border border-slate-700/50 hover:text-white hover:border-slate-600 transition-colors disabled:opacity-50 flex items-center space-x-2"
+                >
+                  {beginnerLoadingMore && (
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent"></div>
+                  )}
+                  <span>{beginnerLoadingMore ? 'Loading more...' : 'Load more'}</span>
+                </button>
+              </div>
+            )}
+            {!beginnerHasMore && beginnerTotalCount > 1000 && beginnerIssues.length > 0 && (
+              <div className="p-6 text-center text-sm text-slate-400">
+                GitHub search stops at the first 1,000 results. Refine the filters to see the rest.
+              </div>
+            )}
+            {beginnerIssues.length > 0 && visibleBeginnerIssues.length === 0 && (
+              <div className="p-16 text-center">
+                <EyeOff className="h-16 w-16 mx-auto mb-4 text-slate-600" />
+                <p className="text-slate-400 text-lg">No loaded issues match the claim, health and hidden repository filters.</p>
+              </div>
+            )}
             {beginnerIssues.length === 0 && !beginnerLoading && (
               <div className="p-16 text-center">
                 <TrendingUp className="h-16 w-16 mx-auto mb-4 text-slate-600" />
@@ -602,7 +1451,7 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                   <div className="flex items-center space-x-3 mb-2">
                     <h3 className="font-bold text-white group-hover:text-blue-400 transition-colors">{repo.name}</h3>
                     <a
-                      href={`https://github.com/${repo.full_name}`}
+                      href={githubService.getRepositoryWebUrl(repo.full_name)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-slate-400 hover:text-white transition-colors"
@@ -699,18 +1548,16 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
   );
 
   // Filter issues based on selected filters
-  const filteredIssues = allIssues.filter(issue => {
-    const typeMatch = !issueFilters.type || 
-      issue.type.toLowerCase() === issueFilters.type.toLowerCase().replace(/\s+/g, '-') ||
-      (issueFilters.type.toLowerCase() === 'good first issue' && issue.type === 'good-first-issue') ||
-      (issueFilters.type.toLowerCase() === 'beginner friendly' && issue.type === 'beginner-friendly');
+  const { issues: filteredIssues, rankings: issueRankings } = rankIssues(allIssues.filter(issue => {
+    const typeMatch = !issueFilters.type ||
+      issue.categories.includes(issueFilters.type.toLowerCase().replace(/\s+/g, '-'));
       
     const statusMatch = !issueFilters.status || 
       (issueFilters.status.toLowerCase() === 'open' && issue.status === 'open') ||
       (issueFilters.status.toLowerCase() === 'closed' && issue.status === 'closed');
       
     return typeMatch && statusMatch;
-  });
+  }), issueToRankingInput);
 
   const renderIssues = () => (
     <div className="space-y-8">
@@ -774,10 +1621,22 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                           >
                             <ExternalLink className="h-4 w-4" />
                           </a>
+                          {issue.url && issue.number && renderBookmarkButton({
+                            issueId: issue.id,
+                            repository: issue.repositoryFullName ?? issue.repository,
+                            number: issue.number,
+                            title: issue.title,
+                            url: issue.url,
+                          })}
                         </div>
                         <p className="text-slate-400 text-sm mb-3">
                           {issue.repository} • by {issue.author} • {issue.createdAt}
                         </p>
+                        {issue.categories.length > 1 && (
+                          <p className="text-xs text-slate-500 mb-2 capitalize">
+                            Also {issue.categories.slice(1).map(category => category.replace(/-/g, ' ')).join(', ')}
+                          </p>
+                        )}
                         {issue.labels && issue.labels.length > 0 && (
                           <div className="flex flex-wrap gap-2">
                             {issue.labels.slice(0, 3).map((label, index) => (
@@ -790,12 +1649,23 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                             ))}
                           </div>
                         )}
+                        {issueRankings.has(issue.id) && <RankingBreakdown ranking={issueRankings.get(issue.id)!} />}
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
-                      <span className={`px-3 py-1 text-xs font-medium rounded-full border ${getDifficultyColor(issue.difficulty)}`}>
-                        {issue.difficulty}
-                      </span>
+                      {issue.linkedPullRequests && issue.linkedPullRequests.length > 0 && (
+                        <a
+                          href={issue.linkedPullRequests[0].url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-slate-400 hover:text-white flex items-center space-x-1 transition-colors"
+                          title={issue.linkedPullRequests.map(pr => `#${pr.number} (${pr.state})`).join(', ')}
+                        >
+                          <GitBranch className="h-3 w-3" />
+                          <span>{issue.linkedPullRequests.length} linked PR{issue.linkedPullRequests.length > 1 ? 's' : ''}</span>
+                        </a>
+                      )}
+                      <DifficultyBadge difficulty={issue.difficulty} estimate={issue.difficultyEstimate} />
                       <span className={`px-3 py-1 text-xs font-medium rounded-full ${
                         issue.status === 'open' ? 'text-green-400 bg-green-500/20 border border-green-500/30' : 'text-slate-400 bg-slate-500/20 border border-slate-500/30'
                       }`}>
@@ -822,6 +1692,106 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
     </div>
   );
 
+  const getReviewDecisionBadge = (pr: PullRequest) => {
+    if (pr.draft) return { text: 'Draft', color: 'text-slate-400 bg-slate-500/20 border-slate-500/30' };
+    switch (pr.reviewDecision) {
+      case 'approved': return { text: 'Approved', color: 'text-green-400 bg-green-500/20 border-green-500/30' };
+      case 'changes_requested': return { text: 'Changes requested', color: 'text-red-400 bg-red-500/20 border-red-500/30' };
+      case 'review_required': return { text: 'Review required', color: 'text-yellow-400 bg-yellow-500/20 border-yellow-500/30' };
+      default: return { text: 'Open', color: 'text-blue-400 bg-blue-500/20 border-blue-500/30' };
+    }
+  };
+
+  const renderPullRequests = () => (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold text-white">Pull Requests</h2>
+          <p className="text-slate-400 mt-2">Open pull requests in your monitored repositories</p>
+        </div>
+        <div className="glass-effect px-4 py-2 rounded-full border border-slate-700/50">
+          <span className="text-white font-medium">{pullRequests.length} open</span>
+        </div>
+      </div>
+
+      <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="flex items-center space-x-3">
+              <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
+              <span className="text-slate-400">Loading pull requests...</span>
+            </div>
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-700/50 max-h-96 overflow-y-auto custom-scrollbar">
+            {pullRequests.map((pr) => {
+              const badge = getReviewDecisionBadge(pr);
+              return (
+                <div key={pr.id} className="p-6 hover:bg-slate-800/50 transition-all duration-300 group">
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-start space-x-4 flex-1">
+                      <div className="p-2 rounded-lg bg-slate-800 border border-slate-700 group-hover:border-slate-600 transition-colors">
+                        <GitBranch className="h-5 w-5 text-slate-400" />
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <h4 className="font-semibold text-white group-hover:text-blue-400 transition-colors">{pr.title}</h4>
+                          <a
+                            href={pr.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-slate-400 hover:text-white transition-colors"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                          </a>
+                        </div>
+                        <p className="text-slate-400 text-sm mb-3">
+                          {pr.repository} #{pr.number} • by {pr.author} • {pr.createdAt}
+                          {pr.closingIssueNumbers && pr.closingIssueNumbers.length > 0 && (
+                            <> • closes {pr.closingIssueNumbers.map(n => `#${n}`).join(', ')}</>
+                          )}
+                        </p>
+                        {pr.labels.length > 0 && (
+                          <div className="flex flex-wrap gap-2">
+                            {pr.labels.slice(0, 3).map((label, index) => (
+                              <span
+                                key={index}
+                                className="text-xs glass-effect text-slate-300 px-3 py-1 rounded-full border border-slate-700/50"
+                              >
+                                {label}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      {pr.comments !== undefined && (
+                        <span className="text-xs text-slate-400 flex items-center space-x-1">
+                          <Users className="h-3 w-3" />
+                          <span>{pr.comments}</span>
+                        </span>
+                      )}
+                      <span className={`px-3 py-1 text-xs font-medium rounded-full border ${badge.color}`}>
+                        {badge.text}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            {pullRequests.length === 0 && !loading && (
+              <div className="p-16 text-center">
+                <GitBranch className="h-16 w-16 mx-auto mb-4 text-slate-600" />
+                <p className="text-slate-400 text-lg">No open pull requests in your repositories.</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   const renderSettings = () => (
     <div className="space-y-8">
       <h2 className="text-3xl font-bold text-white">Settings</h2>
@@ -922,6 +1892,40 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
               </div>
             </div>
           </div>
+
+          <RankingSettings
+            weights={rankingWeights}
+            preferredLanguages={updatedUserData.preferredLanguages ?? []}
+            availableLanguages={popularLanguages}
+            onWeightsChange={weights => updateUserData({ rankingWeights: weights })}
+            onPreferredLanguagesChange={languages => updateUserData({ preferredLanguages: languages })}
+          />
+
+          <ClassificationSettings
+            rules={userClassificationRules}
+            customized={Boolean(updatedUserData.classificationRules)}
+            issues={classifiableIssues}
+            onRulesChange={rules => updateUserData({ classificationRules: rules })}
+          />
+
+          <LabelMappingSettings
+            repositories={monitoredNames}
+            catalogues={repositoryLabels}
+            loading={repositoryLabelsLoading}
+            mappings={labelMappings ?? {}}
+            onMappingsChange={mappings => updateUserData({ labelMappings: mappings })}
+          />
+
+          <ExclusionSettings
+            exclusions={exclusions}
+            onExclusionsChange={next => updateUserData({ exclusions: next })}
+          />
+
+          <NotificationSettings
+            preferences={updatedUserData.notificationPreferences}
+            repositories={monitoredNames}
+            onPreferencesChange={preferences => updateUserData({ notificationPreferences: preferences })}
+          />
         </div>
     </div>
   );
@@ -969,11 +1973,39 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
               </div>
               <div className="flex items-center space-x-4">
                 <div className="relative">
-                  <Bell className="h-6 w-6 text-slate-400" />
-                  {notifications.length > 0 && (
-                    <span className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center font-bold">
-                      {notifications.length}
-                    </span>
+                  <button
+                    onClick={() => setShowNotifications(prev => !prev)}
+                    aria-expanded={showNotifications}
+                    aria-label="Notifications"
+                    className="relative block"
+                  >
+                    <Bell className={`h-6 w-6 ${issueAlerts.length + newMatchCount > 0 ? 'text-white' : 'text-slate-400'}`} />
+                    {issueAlerts.length > 0 && (
+                      <span
+                        className="absolute -top-2 -right-2 bg-red-500 text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center font-bold"
+                        title={`${issueAlerts.length} monitored ${issueAlerts.length === 1 ? 'issue' : 'issues'} changed`}
+                      >
+                        {issueAlerts.length}
+                      </span>
+                    )}
+                    {newMatchCount > 0 && (
+                      <span
+                        className="absolute -bottom-2 -right-2 bg-green-500 text-white text-xs rounded-full h-5 min-w-[1.25rem] px-1 flex items-center justify-center font-bold"
+                        title={`${newMatchCount} new ${newMatchCount === 1 ? 'match' : 'matches'} in watched searches`}
+                      >
+                        {newMatchCount}
+                      </span>
+                    )}
+                  </button>
+                  {showNotifications && (
+                    <NotificationCenter
+                      issueAlerts={issueAlerts}
+                      searches={alertingSearches}
+                      onOpenSearch={openWatchedSearch}
+                      onDismissIssueAlert={dismissIssueAlert}
+                      onDismiss={dismissWatchAlerts}
+                      onDismissAll={dismissAllNotifications}
+                    />
                   )}
                 </div>
                 <div className="flex items-center space-x-3 glass-effect px-4 py-2 rounded-full border border-slate-700/50">
@@ -993,6 +2025,8 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
                 { id: 'discover', label: 'Discover', icon: TrendingUp },
                 { id: 'repositories', label: 'Repositories', icon: Github },
                 { id: 'issues', label: 'Issues', icon: AlertTriangle },
+                { id: 'pulls', label: 'Pull Requests', icon: GitBranch },
+                { id: 'digests', label: 'Digests', icon: Newspaper },
                 { id: 'settings', label: 'Settings', icon: Settings }
               ].map((tab) => (
                 <button
@@ -1014,10 +2048,26 @@ const Dashboard: React.FC<DashboardProps> = ({ userData, onBackToLanding, onLogo
 
         {/* Main Content */}
         <main className="max-w-7xl mx-auto px-6 py-8">
+          {(fetchError || missingRepositories.length > 0) && renderFetchErrors()}
           {activeTab === 'overview' && renderOverview()}
           {activeTab === 'discover' && renderDiscover()}
           {activeTab === 'repositories' && renderRepositories()}
           {activeTab === 'issues' && renderIssues()}
+          {activeTab === 'pulls' && renderPullRequests()}
+          {activeTab === 'digests' && (
+            <DigestView
+              digests={digests}
+              bookmarks={bookmarks}
+              enabled={updatedUserData.notificationPreferences}
+              generating={generatingDigest}
+              error={digestError}
+              onGenerate={cadence => generateDigest(cadence)}
+              onViewed={markDigestViewed}
+              onRemoveBookmark={issueId => updateUserData(prev => ({
+                bookmarks: prev.bookmarks?.filter(bookmark => bookmark.issueId !== issueId),
+              }))}
+            />
+          )}
           {activeTab === 'settings' && renderSettings()}
         </main>
       </div>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { DifficultyEstimate, Issue } from '../types';
+
+interface DifficultyBadgeProps {
+  difficulty?: Issue['difficulty'];
+  estimate?: DifficultyEstimate;
+}
+
+const getDifficultyColor = (difficulty: string | undefined) => {
+  switch (difficulty) {
+    case 'beginner': return 'text-green-400 bg-green-500/20 border-green-500/30';
+    case 'intermediate': return 'text-yellow-400 bg-yellow-500/20 border-yellow-500/30';
+    case 'advanced': return 'text-red-400 bg-red-500/20 border-red-500/30';
+    default: return 'text-slate-400 bg-slate-500/20 border-slate-500/30';
+  }
+};
+
+// Difficulty pill; when estimated, the tooltip lists the signals behind it
+const DifficultyBadge: React.FC<DifficultyBadgeProps> = ({ difficulty, estimate }) => {
+  const level = estimate?.level ?? difficulty;
+  const reasoning = estimate && [
+    `Estimated ${estimate.level} (score ${estimate.score}/100, ${Math.round(estimate.confidence * 100)}% confidence)`,
+    ...estimate.signals
+      .filter(signal => signal.score !== null)
+      .map(signal => `${signal.label}: ${signal.score} - ${signal.detail}`),
+  ].join('\n');
+
+  return (
+    <span
+      className={`px-3 py-1 text-xs font-medium rounded-full border inline-flex items-center space-x-1 ${getDifficultyColor(level)}`}
+      title={reasoning}
+    >
+      {estimate && <Gauge className="h-3 w-3" />}
+      <span>{level}</span>
+      {estimate && <span className="opacity-70">· {Math.round(estimate.confidence * 100)}%</span>}
+    </span>
+  );
+};
+
+export default DifficultyBadge;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { Newspaper, Download, ExternalLink, RefreshCw, BookmarkMinus, AlertCircle } from 'lucide-react';
+import { Bookmark, Digest, DigestCadence, DigestItemKind } from '../types';
+import {
+  DIGEST_CADENCES,
+  DIGEST_SECTIONS,
+  formatCategory,
+  formatDigestWindow,
+  getDigestTitle,
+  groupDigestItems,
+  toHtml,
+  toMarkdown,
+} from '../services/digest';
+
+interface DigestViewProps {
+  // Newest first
+  digests: Digest[];
+  bookmarks: Bookmark[];
+  // Cadences switched on in notification preferences
+  enabled: Record<DigestCadence, boolean>;
+  generating: DigestCadence | null;
+  error: string | null;
+  onGenerate: (cadence: DigestCadence) => void;
+  onViewed: (id: string) => void;
+  onRemoveBookmark: (issueId: number) => void;
+}
+
+const KIND_STYLES: Record<DigestItemKind, string> = {
+  new: 'bg-green-500/20 text-green-400 border-green-500/30',
+  closed: 'bg-slate-500/20 text-slate-300 border-slate-500/30',
+  claimed: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  bookmark: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+};
+
+const download = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Daily and weekly digests of the monitored repositories and bookmarked issues, grouped by
+// repository and category, with Markdown and HTML downloads
+const DigestView: React.FC<DigestViewProps> = ({
+  digests,
+  bookmarks,
+  enabled,
+  generating,
+  error,
+  onGenerate,
+  onViewed,
+  onRemoveBookmark,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = digests.find(digest => digest.id === selectedId) ?? digests[0];
+
+  useEffect(() => {
+    if (selected && !selected.viewedAt) onViewed(selected.id);
+  }, [selected, onViewed]);
+
+  const filename = (digest: Digest, extension: string) =>
+    `giteasy-${digest.cadence}-digest-${digest.windowStart.slice(0, 10)}.${extension}`;
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-dark rounded-2xl border border-slate-700/50 p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-teal-500 to-blue-500">
+            <Newspaper className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Digests</h3>
+            <p className="text-slate-400 text-sm">
+              {DIGEST_CADENCES.some(cadence => enabled[cadence])
+                ? `${DIGEST_CADENCES.filter(cadence => enabled[cadence]).join(' and ')} digests are produced when you open GitEasy after each window`
+                : 'Switch on daily or weekly digests in Settings to get them automatically'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {DIGEST_CADENCES.map(cadence => (
+            <button
+              key={cadence}
+              onClick={() => onGenerate(cadence)}
+              disabled={generating !== null}
+              className="glass-effect text-slate-300 px-4 py-2 rounded-xl text-sm border border-slate-700/50 hover:text-white transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <RefreshCw className={`h-4 w-4 ${generating === cadence ? 'animate-spin' : ''}`} />
+              <span>{cadence === 'daily' ? 'Yesterday' : 'Last week'}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="glass-dark rounded-2xl border border-red-500/30 p-4 flex items-center space-x-3 text-red-400 text-sm">
+          <AlertCircle className="h-5 w-5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden lg:col-span-1 h-fit">
+          <div className="p-4 border-b border-slate-700/50">
+            <h4 className="text-white font-semibold">Past digests</h4>
+          </div>
+          <div className="divide-y divide-slate-700/50 max-h-96 overflow-y-auto custom-scrollbar">
+            {digests.map(digest => (
+              <button
+                key={digest.id}
+                onClick={() => setSelectedId(digest.id)}
+                className={`w-full text-left p-4 transition-colors ${
+                  digest.id === selected?.id ? 'bg-blue-500/10' : 'hover:bg-slate-800/50'
+                }`}
+              >
+                <span className="flex items-center space-x-2">
+                  {!digest.viewedAt && <span className="w-2 h-2 bg-blue-400 rounded-full" />}
+                  <span className="text-white text-sm font-medium capitalize">{digest.cadence}</span>
+                </span>
+                <span className="block text-xs text-slate-400">{formatDigestWindow(digest)} · {digest.items.length} updates</span>
+              </button>
+            ))}
+            {digests.length === 0 && <p className="p-4 text-sm text-slate-400">No digests yet.</p>}
+          </div>
+        </div>
+
+        <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden lg:col-span-3">
+          {selected ? (
+            <>
+              <div className="p-6 border-b border-slate-700/50 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-bold text-white">{getDigestTitle(selected)}</h3>
+                  <p className="text-slate-400 text-sm">Generated {new Date(selected.generatedAt).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => download(toMarkdown(selected), 'text/markdown', filename(selected, 'md'))}
+                    className="glass-effect text-slate-300 px-3 py-2 rounded-xl text-sm border border-slate-700/50 hover:text-white transition-colors flex items-center space-x-1"
+                  >
+                    <Download className="h-4 w-4" />
+                    <span>Markdown</span>
+                  </button>
+                  <button
+                    onClick={() => download(toHtml(selected), 'text/html', filename(selected, 'html'))}
+                    className="glass-effect text-slate-300 px-3 py-2 rounded-xl text-sm border border-slate-700/50 hover:text-white transition-colors flex items-center space-x-1"
+                  >
+                    <Download className="h-4 w-4" />
+                    <span>HTML</span>
+                  </button>
+                </div>
+              </div>
+              <div className="p-6 space-y-6">
+                {selected.errors?.map(message => (
+                  <p key={message} className="text-amber-400 text-sm flex items-center space-x-2">
+                    <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                    <span>Not included: {message}</span>
+                  </p>
+                ))}
+                {selected.items.length === 0 && <p className="text-slate-400">Nothing happened in this window.</p>}
+                {groupDigestItems(selected.items).map(group => (
+                  <div key={group.repository} className="space-y-3">
+                    <h4 className="text-white font-semibold border-b border-slate-700/50 pb-2">{group.repository}</h4>
+                    {group.categories.map(({ category, items }) => (
+                      <div key={category}>
+                        <p className="text-xs uppercase tracking-wide text-slate-500 mb-2">{formatCategory(category)}</p>
+                        <div className="space-y-2">
+                          {items.map(item => (
+                            <a
+                              key={`${item.kind}-${item.issueId}`}
+                              href={item.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="flex items-start space-x-3 group"
+                            >
+                              <span className={`text-xs px-2 py-0.5 rounded-full border flex-shrink-0 ${KIND_STYLES[item.kind]}`}>
+                                {DIGEST_SECTIONS[item.kind]}
+                              </span>
+                              <span className="flex-1 min-w-0">
+                                <span className="text-sm text-white group-hover:text-blue-400 transition-colors">{item.title}</span>
+                                {item.detail && <span className="block text-xs text-slate-500">{item.detail}</span>}
+                              </span>
+                              <ExternalLink className="h-3 w-3 mt-1 flex-shrink-0 text-slate-500" />
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="p-6 text-slate-400">Generate a digest to see what changed yesterday or last week.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+        <div className="p-6 border-b border-slate-700/50">
+          <h3 className="text-lg font-bold text-white">Bookmarked issues</h3>
+          <p className="text-slate-400 text-sm">Comments and closes on these show up in every digest</p>
+        </div>
+        <div className="divide-y divide-slate-700/50">
+          {bookmarks.map(bookmark => (
+            <div key={bookmark.issueId} className="p-4 flex items-center justify-between">
+              <a href={bookmark.url} target="_blank" rel="noopener noreferrer" className="min-w-0 group">
+                <span className="block text-sm text-white group-hover:text-blue-400 transition-colors truncate">{bookmark.title}</span>
+                <span className="block text-xs text-slate-500">{bookmark.repository}</span>
+              </a>
+              <button
+                onClick={() => onRemoveBookmark(bookmark.issueId)}
+                title="Remove bookmark"
+                className="p-1 rounded text-slate-400 hover:text-red-400 transition-colors"
+              >
+                <BookmarkMinus className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {bookmarks.length === 0 && (
+            <p className="p-4 text-sm text-slate-400">Bookmark issues from the Issues or Discover tab to follow them here.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DigestView;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { EyeOff, X, RotateCcw } from 'lucide-react';
+import { SearchExclusions } from '../types';
+import { DEFAULT_EXCLUSIONS, removeExclusion } from '../services/exclusions';
+
+interface ExclusionSettingsProps {
+  exclusions: SearchExclusions;
+  onExclusionsChange: (exclusions: SearchExclusions | undefined) => void;
+}
+
+const KIND_TOGGLES: Array<{ key: 'archived' | 'forks' | 'cla'; label: string; description: string }> = [
+  { key: 'archived', label: 'Hide archived repositories', description: 'Read-only projects that no longer take contributions' },
+  { key: 'forks', label: 'Hide forks', description: 'Issues usually belong upstream' },
+  { key: 'cla', label: 'Hide repositories that require a CLA', description: 'Detected from the contributing guide; needs a GitHub token' },
+];
+
+// Review of everything Discover hides: repositories and owners hidden from issue cards,
+// plus whole kinds of repository. Removing an entry brings its issues back on the next search.
+const ExclusionSettings: React.FC<ExclusionSettingsProps> = ({ exclusions, onExclusionsChange }) => {
+  const isDefault = exclusions.repositories.length === 0
+    && exclusions.organizations.length === 0
+    && KIND_TOGGLES.every(toggle => exclusions[toggle.key] === DEFAULT_EXCLUSIONS[toggle.key]);
+
+  const renderList = (kind: 'repositories' | 'organizations', title: string, empty: string) => (
+    <div>
+      <label className="block text-white font-medium mb-3">{title}</label>
+      {exclusions[kind].length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {exclusions[kind].map(name => (
+            <span
+              key={name}
+              className="inline-flex items-center space-x-2 glass-effect text-slate-300 px-3 py-1 rounded-full text-sm border border-slate-700/50"
+            >
+              <span>{name}</span>
+              <button
+                onClick={() => onExclusionsChange(removeExclusion(exclusions, kind, name))}
+                className="hover:text-white transition-colors"
+                aria-label={`Show ${name} again`}
+                title="Show again"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-slate-500 text-sm">{empty}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-700/50 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-rose-500 to-orange-500">
+            <EyeOff className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Hidden from Discover</h3>
+            <p className="text-slate-400 text-sm">Repositories and owners you hid, and kinds of repository to skip</p>
+          </div>
+        </div>
+        {!isDefault && (
+          <button
+            onClick={() => onExclusionsChange(undefined)}
+            className="text-sm text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>Show everything</span>
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="space-y-3">
+          {KIND_TOGGLES.map(toggle => (
+            <label key={toggle.key} className="flex items-start space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exclusions[toggle.key]}
+                onChange={(e) => onExclusionsChange({ ...exclusions, [toggle.key]: e.target.checked })}
+                className="mt-1 accent-blue-500"
+              />
+              <span>
+                <span className="block text-white text-sm font-medium">{toggle.label}</span>
+                <span className="block text-slate-400 text-xs">{toggle.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        {renderList('repositories', 'Hidden repositories', 'Use "Hide repo" on a Discover issue to hide a noisy repository.')}
+        {renderList('organizations', 'Hidden owners', 'Use "Hide owner" on a Discover issue to hide every repository of an organization or user.')}
+      </div>
+    </div>
+  );
+};
+
+export default ExclusionSettings;
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Github, Key, AlertCircle, CheckCircle, Rocket, Shield } from 'lucide-react';
+import { Github, Key, AlertCircle, CheckCircle, Rocket, Shield, Server } from 'lucide-react';
 import { useGitHub } from '../hooks/useGitHub';
+import { githubService } from '../services/github';
 
 interface GitHubAuthProps {
   onAuthenticated: () => void;
@@ -9,11 +10,33 @@ interface GitHubAuthProps {
 const GitHubAuth: React.FC<GitHubAuthProps> = ({ onAuthenticated }) => {
   const [token, setToken] = useState('');
   const [showTokenInput, setShowTokenInput] = useState(false);
+  const [enterpriseHost, setEnterpriseHost] = useState(
+    githubService.isEnterprise() ? new URL(githubService.getWebUrl()).host : ''
+  );
+  const [showEnterprise, setShowEnterprise] = useState(githubService.isEnterprise());
+  const [hostError, setHostError] = useState<string | null>(null);
   const { login, loading, error } = useGitHub();
 
+  // Falls back to github.com links while the host is blank or not yet a valid URL
+  const getTokenCreationUrl = () => {
+    try {
+      return githubService.getTokenCreationUrl(githubService.normalizeApiUrl(enterpriseHost));
+    } catch {
+      return githubService.getTokenCreationUrl(githubService.normalizeApiUrl(''));
+    }
+  };
+
   const handleTokenSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (token.trim()) {
+      try {
+        githubService.setApiUrl(enterpriseHost);
+        setHostError(null);
+      } catch {
+        setHostError(`"${enterpriseHost}" is not a valid GitHub Enterprise host`);
+        return;
+      }
+
       try {
         await login(token.trim());
         onAuthenticated();
@@ -38,13 +61,36 @@ const GitHubAuth: React.FC<GitHubAuthProps> = ({ onAuthenticated }) => {
         </p>
       </div>
 
-      {error && (
+      {(hostError || error) && (
         <div className="mb-6 p-4 bg-red-500/20 border border-red-500/30 rounded-xl flex items-center space-x-3">
           <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0" />
-          <span className="text-red-300 text-sm">{error}</span>
+          <span className="text-red-300 text-sm">{hostError || error?.message}</span>
         </div>
       )}
 
+      <div className="mb-6">
+        <button
+          type="button"
+          onClick={() => setShowEnterprise(!showEnterprise)}
+          className="text-slate-400 hover:text-white text-sm flex items-center space-x-2 transition-colors"
+        >
+          <Server className="h-4 w-4" />
+          <span>Using GitHub Enterprise Server?</span>
+        </button>
+        {showEnterprise && (
+          <div className="mt-3">
+            <input
+              type="text"
+              value={enterpriseHost}
+              onChange={(e) => setEnterpriseHost(e.target.value)}
+              placeholder="github.example.com"
+              className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-slate-400 text-xs mt-2">Leave empty to connect to github.com.</p>
+          </div>
+        )}
+      </div>
+
       {!showTokenInput ? (
         <div className="space-y-6">
           <button
@@ -58,7 +104,7 @@ const GitHubAuth: React.FC<GitHubAuthProps> = ({ onAuthenticated }) => {
           <div className="text-center">
             <p className="text-slate-400 mb-3">Need a token?</p>
             <a
-              href="https://github.com/settings/tokens/new?scopes=repo,user:email&description=GitEasy"
+              href={getTokenCreationUrl()}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center space-x-2 text-blue-400 hover:text-blue-300 font-medium transition-colors"
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Tag, ChevronDown, ChevronUp, CheckCircle, RotateCcw } from 'lucide-react';
+import { RepositoryLabelMapping } from '../types';
+import { GitHubLabel } from '../services/github';
+import { LABEL_SYNONYMS, labelMappingService } from '../services/labels';
+
+interface LabelMappingSettingsProps {
+  repositories: string[];
+  catalogues: Map<string, GitHubLabel[]>;
+  loading: boolean;
+  mappings: Record<string, RepositoryLabelMapping>;
+  onMappingsChange: (mappings: Record<string, RepositoryLabelMapping>) => void;
+}
+
+const CATEGORIES = Object.keys(LABEL_SYNONYMS);
+
+// Per-repository review of which labels mean which category. Suggestions come from the
+// synonym dictionary; anything the user changes is stored as an override for that repository.
+const LabelMappingSettings: React.FC<LabelMappingSettingsProps> = ({
+  repositories,
+  catalogues,
+  loading,
+  mappings,
+  onMappingsChange,
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showUnmapped, setShowUnmapped] = useState(false);
+
+  const updateMapping = (repository: string, mapping: RepositoryLabelMapping | null) => {
+    const next = { ...mappings };
+    if (mapping) {
+      next[repository] = mapping;
+    } else {
+      delete next[repository];
+    }
+    onMappingsChange(next);
+  };
+
+  const setCategory = (repository: string, label: string, category: string | null) => {
+    const current = mappings[repository] ?? { overrides: {} };
+    const overrides = { ...current.overrides };
+    // Choosing the suggestion again drops the override so dictionary improvements still apply
+    if (category === labelMappingService.suggestCategory(label)) {
+      delete overrides[label];
+    } else {
+      overrides[label] = category;
+    }
+    updateMapping(repository, { ...current, overrides });
+  };
+
+  const renderRepository = (repository: string) => {
+    const labels = catalogues.get(repository);
+    const mapping = mappings[repository];
+    const resolved = labels ? labelMappingService.resolveMapping(labels.map(label => label.name), mapping) : {};
+    const mappedCount = Object.values(resolved).filter(Boolean).length;
+    const isOpen = expanded === repository;
+    const visibleLabels = (labels ?? [])
+      .filter(label => showUnmapped || resolved[label.name] || (mapping && label.name in mapping.overrides))
+      .sort((a, b) => Number(Boolean(resolved[b.name])) - Number(Boolean(resolved[a.name])) || a.name.localeCompare(b.name));
+
+    return (
+      <div key={repository} className="glass-effect rounded-xl border border-slate-700/50">
+        <button
+          onClick={() => setExpanded(isOpen ? null : repository)}
+          aria-expanded={isOpen}
+          className="w-full p-4 flex items-center justify-between text-left"
+        >
+          <div>
+            <span className="text-white font-medium">{repository}</span>
+            <p className="text-xs text-slate-400 mt-1">
+              {labels ? `${mappedCount} of ${labels.length} labels mapped` : loading ? 'Loading labels...' : 'Labels unavailable'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {labels && (
+              mapping?.confirmedAt ? (
+                <span className="text-xs px-2 py-1 rounded-full bg-green-500/20 text-green-400 border border-green-500/30">Confirmed</span>
+              ) : (
+                <span className="text-xs px-2 py-1 rounded-full bg-yellow-500/20 text-yellow-400 border border-yellow-500/30">Suggested</span>
+              )
+            )}
+            {isOpen ? <ChevronUp className="h-4 w-4 text-slate-400" /> : <ChevronDown className="h-4 w-4 text-slate-400" />}
+          </div>
+        </button>
+
+        {isOpen && labels && (
+          <div className="px-4 pb-4 space-y-3">
+            <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar pr-2">
+              {visibleLabels.map(label => {
+                const suggestion = labelMappingService.suggestCategory(label.name);
+                const overridden = Boolean(mapping && label.name in mapping.overrides);
+                return (
+                  <div key={label.name} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center space-x-2 min-w-0">
+                      <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: `#${label.color}` }} />
+                      <span className="text-slate-300 truncate" title={label.description ?? undefined}>{label.name}</span>
+                      {overridden && (
+                        <span className="text-xs text-slate-500 flex-shrink-0">(suggested: {suggestion ?? 'none'})</span>
+                      )}
+                    </span>
+                    <select
+                      value={resolved[label.name] ?? ''}
+                      onChange={(e) => setCategory(repository, label.name, e.target.value || null)}
+                      className="ml-3 px-2 py-1 glass-effect border border-slate-600/50 rounded-lg text-xs text-white bg-slate-800/50"
+                    >
+                      <option value="">No category</option>
+                      {CATEGORIES.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+              {visibleLabels.length === 0 && (
+                <p className="text-xs text-slate-500">No labels matched a category. Show all labels to map them by hand.</p>
+              )}
+            </div>
+            <div className="flex items-center justify-between pt-2">
+              <button
+                onClick={() => setShowUnmapped(prev => !prev)}
+                className="text-xs text-slate-400 hover:text-white transition-colors"
+              >
+                {showUnmapped ? 'Hide unmapped labels' : `Show all ${labels.length} labels`}
+              </button>
+              <div className="flex items-center space-x-4">
+                {mapping && (
+                  <button
+                    onClick={() => updateMapping(repository, null)}
+                    className="text-xs text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    <span>Reset</span>
+                  </button>
+                )}
+                {!mapping?.confirmedAt && (
+                  <button
+                    onClick={() => updateMapping(repository, { overrides: mapping?.overrides ?? {}, confirmedAt: new Date().toISOString() })}
+                    className="text-xs text-green-400 hover:text-green-300 transition-colors flex items-center space-x-1"
+                  >
+                    <CheckCircle className="h-3 w-3" />
+                    <span>Confirm mapping</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-700/50">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-sky-500 to-indigo-500">
+            <Tag className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Repository Labels</h3>
+            <p className="text-slate-400 text-sm">How each repository's own labels map to categories, for classification and repository searches</p>
+          </div>
+        </div>
+      </div>
+      <div className="p-6 space-y-3">
+        {repositories.map(renderRepository)}
+        {repositories.length === 0 && (
+          <p className="text-slate-400 text-sm">Add repositories to review their labels.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabelMappingSettings;
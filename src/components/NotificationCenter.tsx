@@ -0,0 +1,113 @@
+import React from 'react';
+import { Eye, ExternalLink, X } from 'lucide-react';
+import { IssueChange, SavedSearch } from '../types';
+import { ISSUE_CHANGE_LABELS } from '../services/notifications';
+
+interface NotificationCenterProps {
+  // Changes to monitored issues, newest first
+  issueAlerts: IssueChange[];
+  // Watched searches with undismissed matches
+  searches: SavedSearch[];
+  onOpenSearch: (search: SavedSearch) => void;
+  onDismissIssueAlert: (change: IssueChange) => void;
+  onDismiss: (searchId: string) => void;
+  onDismissAll: () => void;
+}
+
+const KIND_STYLES: Record<IssueChange['kind'], string> = {
+  new: 'bg-green-500/20 text-green-400 border-green-500/30',
+  reopened: 'bg-amber-500/20 text-amber-400 border-amber-500/30',
+  unassigned: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+};
+
+const renderLink = (key: string | number, title: string, url: string, detail: string, badge?: React.ReactNode) => (
+  <a key={key} href={url} target="_blank" rel="noopener noreferrer" className="block group">
+    <span className="text-sm text-white group-hover:text-blue-400 transition-colors flex items-start space-x-1">
+      <span className="flex-1">{title}</span>
+      <ExternalLink className="h-3 w-3 mt-1 flex-shrink-0 text-slate-500" />
+    </span>
+    <span className="flex items-center space-x-2 text-xs text-slate-500">
+      {badge}
+      <span>{detail}</span>
+    </span>
+  </a>
+);
+
+// Bell dropdown: changes to monitored issues since the last refreshes, then issues that newly
+// matched a watched search, each kept until dismissed
+const NotificationCenter: React.FC<NotificationCenterProps> = ({
+  issueAlerts,
+  searches,
+  onOpenSearch,
+  onDismissIssueAlert,
+  onDismiss,
+  onDismissAll,
+}) => (
+  <div className="absolute right-0 top-10 w-96 glass-dark rounded-2xl border border-slate-700/50 shadow-xl z-20 overflow-hidden">
+    <div className="p-4 border-b border-slate-700/50 flex items-center justify-between">
+      <h3 className="text-white font-semibold">Notifications</h3>
+      {(issueAlerts.length > 0 || searches.length > 0) && (
+        <button onClick={onDismissAll} className="text-xs text-slate-400 hover:text-white transition-colors">
+          Dismiss all
+        </button>
+      )}
+    </div>
+    <div className="max-h-96 overflow-y-auto custom-scrollbar divide-y divide-slate-700/50">
+      {issueAlerts.map(change => (
+        <div key={`${change.kind}-${change.issueId}-${change.detectedAt}`} className="p-4 flex items-start space-x-2">
+          <div className="flex-1 min-w-0">
+            {renderLink(
+              change.issueId,
+              change.title,
+              change.url,
+              `${change.repository} • ${new Date(change.detectedAt).toLocaleString()}`,
+              <span className={`px-2 py-0.5 rounded-full border ${KIND_STYLES[change.kind]}`}>
+                {ISSUE_CHANGE_LABELS[change.kind]}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={() => onDismissIssueAlert(change)}
+            aria-label={`Dismiss ${change.title}`}
+            className="text-slate-500 hover:text-white transition-colors"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      {searches.map(search => (
+        <div key={search.id} className="p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => onOpenSearch(search)}
+              className="text-sm font-medium text-blue-400 hover:text-blue-300 transition-colors flex items-center space-x-1"
+            >
+              <Eye className="h-3 w-3" />
+              <span>{search.name}</span>
+            </button>
+            <button
+              onClick={() => onDismiss(search.id)}
+              aria-label={`Dismiss new matches for ${search.name}`}
+              className="text-slate-500 hover:text-white transition-colors"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          {search.newMatches?.map(match => renderLink(
+            match.id,
+            match.title,
+            match.url,
+            `${match.repository} • found ${new Date(match.foundAt).toLocaleString()}`
+          ))}
+        </div>
+      ))}
+      {issueAlerts.length === 0 && searches.length === 0 && (
+        <p className="p-4 text-sm text-slate-400">
+          Nothing new. Monitored issues that open, reopen or lose their assignee show up here, as do new matches for watched searches.
+        </p>
+      )}
+    </div>
+  </div>
+);
+
+export default NotificationCenter;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { BellRing, Moon } from 'lucide-react';
+import { IssueChangeKind, NotificationPreferences } from '../types';
+import { ISSUE_CHANGE_LABELS, notificationService } from '../services/notifications';
+
+interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  // Monitored repository full names
+  repositories: string[];
+  onPreferencesChange: (preferences: NotificationPreferences) => void;
+}
+
+const KIND_DESCRIPTIONS: Record<IssueChangeKind, string> = {
+  new: 'Opened since the last refresh',
+  reopened: 'Closed before and open again',
+  unassigned: 'Was assigned, now up for grabs',
+};
+
+const DIGEST_TOGGLES: Array<{ key: 'daily' | 'weekly'; label: string; description: string }> = [
+  { key: 'daily', label: 'Daily digest', description: 'Yesterday\'s new, closed and claimed issues plus bookmark activity, ready when you open GitEasy' },
+  { key: 'weekly', label: 'Weekly digest', description: 'The same for last week, Monday to Sunday' },
+];
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+// Desktop notifications for changes to monitored issues: browser permission, which kinds of
+// change and which repositories notify, and quiet hours when only the bell list fills up.
+// Also where daily and weekly digests are switched on.
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ preferences, repositories, onPreferencesChange }) => {
+  const [permission, setPermission] = useState(() => notificationService.getPermission());
+  const muted = preferences.mutedRepositories ?? [];
+
+  const update = (changes: Partial<NotificationPreferences>) => onPreferencesChange({ ...preferences, ...changes });
+
+  const requestPermission = async () => {
+    setPermission(await notificationService.requestPermission());
+  };
+
+  const toggleMuted = (repository: string) => update({
+    mutedRepositories: muted.includes(repository)
+      ? muted.filter(name => name !== repository)
+      : [...muted, repository],
+  });
+
+  const permissionNote = {
+    granted: null,
+    default: 'Your browser has not been asked yet.',
+    denied: 'Notifications are blocked for this site. Allow them in your browser\'s site settings.',
+    unsupported: 'This browser does not support desktop notifications.',
+  }[permission];
+
+  return (
+    <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-700/50 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-violet-500 to-fuchsia-500">
+            <BellRing className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Notifications</h3>
+            <p className="text-slate-400 text-sm">Desktop alerts when monitored issues open, reopen or lose their assignee, and digests</p>
+          </div>
+        </div>
+        {permission === 'default' && (
+          <button
+            onClick={requestPermission}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:from-blue-700 hover:to-purple-700 transition-all duration-300"
+          >
+            Allow notifications
+          </button>
+        )}
+      </div>
+      <div className="p-6 space-y-6">
+        <label className="flex items-start space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences.instant}
+            onChange={(e) => update({ instant: e.target.checked })}
+            className="mt-1 accent-blue-500"
+          />
+          <span>
+            <span className="block text-white text-sm font-medium">Desktop notifications</span>
+            <span className="block text-slate-400 text-xs">
+              {permissionNote ?? 'Grouped by repository; click one to open the issue.'}
+            </span>
+          </span>
+        </label>
+
+        <div className="space-y-3">
+          {DIGEST_TOGGLES.map(toggle => (
+            <label key={toggle.key} className="flex items-start space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences[toggle.key]}
+                onChange={(e) => update({ [toggle.key]: e.target.checked })}
+                className="mt-1 accent-blue-500"
+              />
+              <span>
+                <span className="block text-white text-sm font-medium">{toggle.label}</span>
+                <span className="block text-slate-400 text-xs">{toggle.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <label className="block text-white font-medium mb-3">Notify about</label>
+          <div className="space-y-3">
+            {(Object.keys(ISSUE_CHANGE_LABELS) as IssueChangeKind[]).map(kind => (
+              <label key={kind} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preferences.kinds?.[kind] !== false}
+                  onChange={(e) => update({ kinds: { ...preferences.kinds, [kind]: e.target.checked } })}
+                  className="mt-1 accent-blue-500"
+                />
+                <span>
+                  <span className="block text-white text-sm font-medium">{ISSUE_CHANGE_LABELS[kind]}</span>
+                  <span className="block text-slate-400 text-xs">{KIND_DESCRIPTIONS[kind]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="flex items-center space-x-3 cursor-pointer mb-3">
+            <input
+              type="checkbox"
+              checked={Boolean(preferences.quietHours)}
+              onChange={(e) => update({ quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : undefined })}
+              className="accent-blue-500"
+            />
+            <span className="text-white font-medium flex items-center space-x-2">
+              <Moon className="h-4 w-4" />
+              <span>Quiet hours</span>
+            </span>
+          </label>
+          {preferences.quietHours && (
+            <div className="flex items-center space-x-3 text-sm text-slate-400">
+              <input
+                type="time"
+                value={preferences.quietHours.start}
+                onChange={(e) => e.target.value && update({ quietHours: { ...preferences.quietHours!, start: e.target.value } })}
+                className="px-3 py-2 glass-effect border border-slate-700/50 rounded-xl text-white"
+              />
+              <span>to</span>
+              <input
+                type="time"
+                value={preferences.quietHours.end}
+                onChange={(e) => e.target.value && update({ quietHours: { ...preferences.quietHours!, end: e.target.value } })}
+                className="px-3 py-2 glass-effect border border-slate-700/50 rounded-xl text-white"
+              />
+              <span>changes still show under the bell</span>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-white font-medium mb-3">Repositories</label>
+          {repositories.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {repositories.map(repository => {
+                const enabled = !muted.includes(repository);
+                return (
+                  <button
+                    key={repository}
+                    onClick={() => toggleMuted(repository)}
+                    aria-pressed={enabled}
+                    title={enabled ? 'Mute this repository' : 'Unmute this repository'}
+                    className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                      enabled
+                        ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                        : 'glass-effect text-slate-500 border-slate-700/50 line-through hover:text-white'
+                    }`}
+                  >
+                    {repository}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-slate-500 text-sm">Add repositories to monitor to get notified about their issues.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { BarChart3, ChevronDown, ChevronUp } from 'lucide-react';
+import { IssueRanking } from '../types';
+
+interface RankingBreakdownProps {
+  ranking: IssueRanking;
+}
+
+// "Why is this ranked here?" toggle listing what each ranking factor contributed
+const RankingBreakdown: React.FC<RankingBreakdownProps> = ({ ranking }) => {
+  const [open, setOpen] = useState(false);
+  const contributions = [...ranking.contributions].sort((a, b) => b.points - a.points);
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        aria-expanded={open}
+        className="text-xs text-slate-400 hover:text-white transition-colors flex items-center space-x-1"
+      >
+        <BarChart3 className="h-3 w-3" />
+        <span>Ranked #{ranking.position} · score {ranking.score}</span>
+        {open ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+      </button>
+      {open && (
+        <div className="mt-2 p-3 glass-effect rounded-xl border border-slate-700/50 space-y-2">
+          {contributions.map(contribution => (
+            <div key={contribution.factor} className="text-xs">
+              <div className="flex items-center justify-between mb-1">
+                <span className={contribution.score === null || contribution.weight === 0 ? 'text-slate-500' : 'text-slate-300'}>
+                  {contribution.label}
+                  <span className="text-slate-500"> · {contribution.detail}</span>
+                </span>
+                <span className="text-slate-400 ml-3 flex-shrink-0">
+                  {contribution.score === null || contribution.weight === 0 ? 'not counted' : `+${contribution.points.toFixed(1)}`}
+                </span>
+              </div>
+              <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
+                  style={{ width: `${Math.min(100, contribution.points)}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RankingBreakdown;
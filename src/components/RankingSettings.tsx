@@ -0,0 +1,101 @@
+import React from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { RankingWeights } from '../types';
+import { DEFAULT_RANKING_WEIGHTS, MAX_RANKING_WEIGHT, rankingEngine } from '../services/ranking';
+
+interface RankingSettingsProps {
+  weights: RankingWeights;
+  preferredLanguages: string[];
+  availableLanguages: string[];
+  onWeightsChange: (weights: RankingWeights) => void;
+  onPreferredLanguagesChange: (languages: string[]) => void;
+}
+
+const RankingSettings: React.FC<RankingSettingsProps> = ({
+  weights,
+  preferredLanguages,
+  availableLanguages,
+  onWeightsChange,
+  onPreferredLanguagesChange,
+}) => {
+  const toggleLanguage = (language: string) => {
+    onPreferredLanguagesChange(
+      preferredLanguages.includes(language)
+        ? preferredLanguages.filter(l => l !== language)
+        : [...preferredLanguages, language]
+    );
+  };
+
+  return (
+    <div className="glass-dark rounded-2xl border border-slate-700/50 overflow-hidden">
+      <div className="p-6 border-b border-slate-700/50 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-orange-500 to-amber-500">
+            <SlidersHorizontal className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Issue Ranking</h3>
+            <p className="text-slate-400 text-sm">How much each factor counts when ordering issues on Overview, Discover and Issues</p>
+          </div>
+        </div>
+        <button
+          onClick={() => onWeightsChange({})}
+          className="text-sm text-slate-400 hover:text-white transition-colors flex items-center space-x-2"
+        >
+          <RotateCcw className="h-4 w-4" />
+          <span>Reset</span>
+        </button>
+      </div>
+      <div className="p-6 space-y-5">
+        {rankingEngine.getScorers().map(scorer => {
+          const weight = weights[scorer.factor] ?? DEFAULT_RANKING_WEIGHTS[scorer.factor];
+          return (
+            <div key={scorer.factor}>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor={`ranking-${scorer.factor}`} className="text-white font-medium">
+                  {scorer.label}
+                </label>
+                <span className="text-sm text-slate-400">{weight === 0 ? 'Off' : weight}</span>
+              </div>
+              <input
+                id={`ranking-${scorer.factor}`}
+                type="range"
+                min={0}
+                max={MAX_RANKING_WEIGHT}
+                value={weight}
+                onChange={(e) => onWeightsChange({ ...weights, [scorer.factor]: Number(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+              <p className="text-xs text-slate-500 mt-1">{scorer.description}</p>
+            </div>
+          );
+        })}
+
+        <div className="pt-2">
+          <label className="block text-white font-medium mb-3">Preferred Languages</label>
+          <div className="flex flex-wrap gap-2">
+            {availableLanguages.map(language => {
+              const selected = preferredLanguages.includes(language);
+              return (
+                <button
+                  key={language}
+                  onClick={() => toggleLanguage(language)}
+                  aria-pressed={selected}
+                  className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                    selected
+                      ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                      : 'glass-effect text-slate-400 border-slate-700/50 hover:text-white'
+                  }`}
+                >
+                  {language}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RankingSettings;
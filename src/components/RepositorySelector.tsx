@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { Search, Github, Star, AlertTriangle, Plus, Check, Users, BookOpen, Zap, Heart, Loader } from 'lucide-react';
-import { useRepositories, useRepositorySearch, useBeginnerRepositories } from '../hooks/useGitHub';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search, Github, Star, AlertTriangle, Plus, Check, Users, BookOpen, Zap, Heart, Loader, Activity, Sprout, AlertCircle } from 'lucide-react';
+import { useRepositories, useRepositorySearch, useRepositoryCatalogue, useRepositoryHealth } from '../hooks/useGitHub';
+import { RepositoryHealth } from '../types';
 import { githubService } from '../services/github';
+import { CatalogueRepository, describeCatalogueFlag } from '../services/catalogue';
 
 interface Repository {
   id: number;
@@ -15,6 +17,18 @@ interface Repository {
   topics?: string[];
 }
 
+type CatalogueSort = 'goodFirstIssues' | 'health' | 'stars' | 'name';
+
+const HEALTH_FILTERS = {
+  any: [],
+  fair: ['poor'],
+  healthy: ['poor', 'fair'],
+} as const;
+
+// Health takes several requests per repository, so owned and search results only score
+// their first rows
+const HEALTH_PREVIEW_LIMIT = 30;
+
 interface RepositorySelectorProps {
   selectedRepositories: Repository[];
   onRepositoriesChange: (repositories: Repository[]) => void;
@@ -28,16 +42,60 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
   const [customRepoUrl, setCustomRepoUrl] = useState('');
   const [activeTab, setActiveTab] = useState<'owned' | 'beginner' | 'search' | 'custom'>('beginner');
   const [selectedLanguage, setSelectedLanguage] = useState<string>('');
+  const [healthFilter, setHealthFilter] = useState<keyof typeof HEALTH_FILTERS>('any');
+  const [catalogueSort, setCatalogueSort] = useState<CatalogueSort>('goodFirstIssues');
   const [addingCustomRepo, setAddingCustomRepo] = useState(false);
   
   const { repositories: ownedRepos, loading: ownedLoading } = useRepositories();
-  const { repositories: beginnerRepos, loading: beginnerLoading } = useBeginnerRepositories();
-  const { results: searchResults, loading: searchLoading, search, searchBeginnerRepos } = useRepositorySearch();
+  const { catalogue, loading: catalogueLoading, refetch: refetchCatalogue } = useRepositoryCatalogue();
+  const { results: searchResults, loading: searchLoading, search } = useRepositorySearch();
 
-  const popularLanguages = [
-    'JavaScript', 'TypeScript', 'Python', 'Java', 'Go', 'Rust', 
-    'C++', 'C#', 'PHP', 'Ruby', 'Swift', 'Kotlin', 'HTML', 'CSS'
-  ];
+  // Entries GitHub no longer has can't be shown as cards, only reported
+  const catalogueRepositories = useMemo(
+    () => catalogue.filter((item): item is CatalogueRepository & { repository: Repository } => item.repository !== null),
+    [catalogue]
+  );
+  const missingEntries = catalogue.filter(item => item.repository === null && item.flags.includes('missing'));
+  const failedEntries = catalogue.filter(item => item.flags.includes('lookup-failed'));
+
+  // The catalogue is only scored once it has loaded and the health filter or sort needs it
+  const healthInUse = healthFilter !== 'any' || catalogueSort === 'health';
+  const healthTargets: Repository[] =
+    activeTab === 'beginner'
+      ? (healthInUse && !catalogueLoading
+        ? catalogueRepositories.filter(item => !selectedLanguage || item.entry.language === selectedLanguage).map(item => item.repository)
+        : [])
+    : activeTab === 'owned' ? ownedRepos.slice(0, HEALTH_PREVIEW_LIMIT)
+    : activeTab === 'search' ? searchResults.slice(0, HEALTH_PREVIEW_LIMIT)
+    : [];
+  const { health, loading: healthLoading } = useRepositoryHealth(healthTargets.map(repo => repo.full_name));
+
+  const catalogueLanguages = useMemo(
+    () => [...new Set(catalogue.map(item => item.entry.language))].sort(),
+    [catalogue]
+  );
+
+  const filteredCatalogue = useMemo(() => {
+    const excludedGrades: readonly string[] = HEALTH_FILTERS[healthFilter];
+    const compare = (a: CatalogueRepository & { repository: Repository }, b: CatalogueRepository & { repository: Repository }) => {
+      switch (catalogueSort) {
+        // Unknown counts and scores sort after every known one
+        case 'goodFirstIssues': return (b.goodFirstIssues ?? -1) - (a.goodFirstIssues ?? -1);
+        case 'health': return (health.get(b.repository.full_name)?.score ?? -1) - (health.get(a.repository.full_name)?.score ?? -1);
+        case 'stars': return b.repository.stargazers_count - a.repository.stargazers_count;
+        case 'name': return a.repository.full_name.localeCompare(b.repository.full_name);
+      }
+    };
+
+    return catalogueRepositories
+      .filter(item => !selectedLanguage || item.entry.language === selectedLanguage)
+      .filter(item => {
+        const repoHealth = health.get(item.repository.full_name);
+        return !repoHealth || !excludedGrades.includes(repoHealth.grade);
+      })
+      // Flagged entries stay visible but go last
+      .sort((a, b) => Number(a.flags.length > 0) - Number(b.flags.length > 0) || compare(a, b));
+  }, [catalogueRepositories, selectedLanguage, healthFilter, catalogueSort, health]);
 
   useEffect(() => {
     if (searchQuery.trim()) {
@@ -48,12 +106,6 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
     }
   }, [searchQuery, search]);
 
-  useEffect(() => {
-    if (activeTab === 'beginner' && selectedLanguage) {
-      searchBeginnerRepos(selectedLanguage);
-    }
-  }, [selectedLanguage, activeTab, searchBeginnerRepos]);
-
   const handleRepositoryToggle = (repo: Repository) => {
     const isSelected = selectedRepositories.some(r => r.id === repo.id);
     if (isSelected) {
@@ -116,7 +168,56 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
     return badges;
   };
 
-  const renderRepository = (repo: Repository) => {
+  const renderHealthBadge = (repoHealth?: RepositoryHealth) => {
+    if (!repoHealth) return null;
+
+    const color = {
+      healthy: 'bg-green-500/20 text-green-400 border-green-500/30',
+      fair: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+      poor: 'bg-red-500/20 text-red-400 border-red-500/30',
+    }[repoHealth.grade];
+    // One line per signal so the tooltip explains the score
+    const breakdown = [
+      ...(repoHealth.archived ? ['Archived: no longer maintained'] : []),
+      ...repoHealth.signals.map(signal => `${signal.label}: ${signal.score ?? 'n/a'} - ${signal.detail}`),
+    ].join('\n');
+
+    return (
+      <span
+        className={`inline-flex items-center space-x-1 text-xs px-2 py-1 rounded-full border ${color}`}
+        title={breakdown}
+      >
+        <Activity className="h-3 w-3" />
+        <span>{repoHealth.archived ? 'Archived' : `Health ${repoHealth.score}`}</span>
+      </span>
+    );
+  };
+
+  const renderCatalogueBadges = (item: CatalogueRepository) => (
+    <>
+      {item.goodFirstIssues !== null && (
+        <span
+          className="inline-flex items-center space-x-1 text-xs px-2 py-1 rounded-full border bg-green-500/20 text-green-400 border-green-500/30"
+          title={`Open issues labelled "${item.entry.goodFirstIssueLabel ?? 'good first issue'}"`}
+        >
+          <Sprout className="h-3 w-3" />
+          <span>{item.goodFirstIssues} good first</span>
+        </span>
+      )}
+      {item.flags.map(flag => (
+        <span
+          key={flag}
+          className="inline-flex items-center space-x-1 text-xs px-2 py-1 rounded-full border bg-red-500/20 text-red-400 border-red-500/30"
+          title={flag === 'renamed' ? `Listed as ${item.entry.fullName}` : describeCatalogueFlag(flag)}
+        >
+          <AlertCircle className="h-3 w-3" />
+          <span>{flag === 'issues-disabled' ? 'No GitHub issues' : flag.charAt(0).toUpperCase() + flag.slice(1)}</span>
+        </span>
+      ))}
+    </>
+  );
+
+  const renderRepository = (repo: Repository, catalogueItem?: CatalogueRepository) => {
     const isSelected = selectedRepositories.some(r => r.id === repo.id);
     const badges = getRepositoryBadges(repo);
     
@@ -145,6 +246,8 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
                   {repo.language}
                 </span>
               )}
+              {renderHealthBadge(health.get(repo.full_name))}
+              {catalogueItem && renderCatalogueBadges(catalogueItem)}
             </div>
             
             {/* Beginner-friendly badges */}
@@ -250,23 +353,81 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
       <div className="space-y-4">
         {activeTab === 'beginner' && (
           <div>
-            <div className="mb-6">
-              <label className="block text-white font-semibold mb-3">
-                Filter by Programming Language
-              </label>
-              <select
-                value={selectedLanguage}
-                onChange={(e) => setSelectedLanguage(e.target.value)}
-                className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="">All Languages</option>
-                {popularLanguages.map(lang => (
-                  <option key={lang} value={lang}>{lang}</option>
-                ))}
-              </select>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div>
+                <label className="block text-white font-semibold mb-3">Language</label>
+                <select
+                  value={selectedLanguage}
+                  onChange={(e) => setSelectedLanguage(e.target.value)}
+                  className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All Languages</option>
+                  {catalogueLanguages.map(lang => (
+                    <option key={lang} value={lang}>{lang}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-white font-semibold mb-3">Health</label>
+                <select
+                  value={healthFilter}
+                  onChange={(e) => setHealthFilter(e.target.value as keyof typeof HEALTH_FILTERS)}
+                  className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="any">Any health</option>
+                  <option value="fair">Fair or better</option>
+                  <option value="healthy">Healthy only</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-white font-semibold mb-3">Sort by</label>
+                <select
+                  value={catalogueSort}
+                  onChange={(e) => setCatalogueSort(e.target.value as CatalogueSort)}
+                  className="w-full px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="goodFirstIssues">Open good first issues</option>
+                  <option value="health">Health score</option>
+                  <option value="stars">Stars</option>
+                  <option value="name">Name</option>
+                </select>
+              </div>
             </div>
+
+            {healthInUse && healthLoading && (
+              <div className="flex items-center space-x-2 text-sm text-slate-400 mb-4">
+                <Activity className="h-4 w-4 animate-pulse" />
+                <span>Checking repository health...</span>
+              </div>
+            )}
+
+            {missingEntries.length > 0 && (
+              <div className="glass-effect p-3 rounded-xl border border-red-500/30 mb-4 flex items-center space-x-2 text-sm text-red-400">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>
+                  {missingEntries.length === 1 ? '1 catalogue entry is' : `${missingEntries.length} catalogue entries are`} no longer on GitHub: {missingEntries.map(item => item.entry.fullName).join(', ')}
+                </span>
+              </div>
+            )}
+
+            {failedEntries.length > 0 && (
+              <div className="glass-effect p-3 rounded-xl border border-yellow-500/30 mb-4 flex items-center justify-between space-x-2 text-sm text-yellow-400">
+                <span className="flex items-center space-x-2">
+                  <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                  <span>
+                    Could not load {failedEntries.length === 1 ? '1 catalogue entry' : `${failedEntries.length} catalogue entries`}: {failedEntries.map(item => item.entry.fullName).join(', ')}
+                  </span>
+                </span>
+                <button
+                  onClick={() => refetchCatalogue()}
+                  className="flex-shrink-0 px-3 py-1 rounded-lg border border-yellow-500/30 hover:bg-yellow-500/10 transition-colors"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
             
-            {beginnerLoading || searchLoading ? (
+            {catalogueLoading ? (
               <div className="flex items-center justify-center py-12">
                 <div className="flex items-center space-x-3">
                   <Loader className="h-6 w-6 animate-spin text-blue-400" />
@@ -275,8 +436,8 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
               </div>
             ) : (
               <div className="grid grid-cols-1 gap-4 max-h-96 overflow-y-auto">
-                {(selectedLanguage ? searchResults : beginnerRepos).map(renderRepository)}
-                {(selectedLanguage ? searchResults : beginnerRepos).length === 0 && (
+                {filteredCatalogue.map(item => renderRepository(item.repository, item))}
+                {filteredCatalogue.length === 0 && (
                   <div className="text-center py-12">
                     <Heart className="h-16 w-16 mx-auto mb-4 text-slate-600" />
                     <p className="text-slate-400 text-lg">No beginner-friendly repositories found.</p>
@@ -298,7 +459,7 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
               </div>
             ) : (
               <div className="grid grid-cols-1 gap-4 max-h-96 overflow-y-auto">
-                {ownedRepos.map(renderRepository)}
+                {ownedRepos.map(repo => renderRepository(repo))}
                 {ownedRepos.length === 0 && (
                   <div className="text-center py-12">
                     <Github className="h-16 w-16 mx-auto mb-4 text-slate-600" />
@@ -332,7 +493,7 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
               </div>
             ) : (
               <div className="grid grid-cols-1 gap-4 max-h-96 overflow-y-auto">
-                {searchResults.map(renderRepository)}
+                {searchResults.map(repo => renderRepository(repo))}
                 {searchResults.length === 0 && searchQuery && (
                   <div className="text-center py-12">
                     <Search className="h-16 w-16 mx-auto mb-4 text-slate-600" />
@@ -351,7 +512,7 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
                 type="url"
                 value={customRepoUrl}
                 onChange={(e) => setCustomRepoUrl(e.target.value)}
-                placeholder="https://github.com/owner/repository"
+                placeholder={`${githubService.getWebUrl()}/owner/repository`}
                 className="flex-1 px-4 py-3 glass-effect border border-slate-700/50 rounded-xl text-white placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               <button
@@ -369,7 +530,7 @@ const RepositorySelector: React.FC<RepositorySelectorProps> = ({
             </div>
             <div className="glass-effect p-4 rounded-xl border border-slate-700/50">
               <p className="text-slate-400 text-sm">
-                Enter the full GitHub repository URL to add it to your monitoring list.
+                Enter the full repository URL to add it to your monitoring list.
               </p>
             </div>
           </div>
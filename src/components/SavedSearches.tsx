@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Bookmark, Pin, PinOff, ChevronUp, ChevronDown, Trash2, Plus, Play, Eye } from 'lucide-react';
+import { SavedSearch } from '../types';
+import { describeFilters, formatResultCount, moveSavedSearch, setWatched } from '../services/savedSearches';
+
+interface SavedSearchesProps {
+  searches: SavedSearch[];
+  // The saved search the current filters match, if any
+  activeId?: string;
+  onRun: (search: SavedSearch) => void;
+  onSave: (name: string) => void;
+  onSearchesChange: (searches: SavedSearch[]) => void;
+}
+
+const formatLastRun = (search: SavedSearch) =>
+  search.lastRunAt
+    ? `${search.resultCount !== undefined ? formatResultCount(search.resultCount, search.resultCountApproximate) : '?'} results · ${new Date(search.lastRunAt).toLocaleString()}`
+    : 'Not run yet';
+
+// Named Discover filter sets. Pinned searches run with one click from the bar; the
+// manage list pins, watches, reorders and deletes them.
+const SavedSearches: React.FC<SavedSearchesProps> = ({ searches, activeId, onRun, onSave, onSearchesChange }) => {
+  const [name, setName] = useState('');
+  const [managing, setManaging] = useState(false);
+  const pinned = searches.filter(search => search.pinned);
+
+  const update = (id: string, changes: Partial<SavedSearch>) =>
+    onSearchesChange(searches.map(search => (search.id === id ? { ...search, ...changes } : search)));
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="glass-dark rounded-2xl border border-slate-700/50 p-6 space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-xl bg-gradient-to-r from-amber-500 to-pink-500">
+            <Bookmark className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-white">Saved Searches</h3>
+            <p className="text-slate-400 text-sm">Name the current filters to run them again with one click</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="e.g. Rust docs issues"
+            className="px-4 py-2 glass-effect border border-slate-700/50 rounded-xl text-sm text-white placeholder-slate-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:from-blue-700 hover:to-purple-700 transition-all duration-300 disabled:opacity-50 flex items-center space-x-1"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Save</span>
+          </button>
+        </div>
+      </div>
+
+      {searches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {pinned.map(search => (
+            <button
+              key={search.id}
+              onClick={() => onRun(search)}
+              title={describeFilters(search.filters)}
+              className={`text-sm px-3 py-1 rounded-full border transition-colors flex items-center space-x-1 ${
+                search.id === activeId
+                  ? 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+                  : 'glass-effect text-slate-300 border-slate-700/50 hover:text-white'
+              }`}
+            >
+              {search.watched ? <Eye className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              <span>{search.name}</span>
+              {search.resultCount !== undefined && <span className="opacity-70">· {formatResultCount(search.resultCount, search.resultCountApproximate)}</span>}
+            </button>
+          ))}
+          <button
+            onClick={() => setManaging(prev => !prev)}
+            aria-expanded={managing}
+            className="text-xs text-slate-400 hover:text-white transition-colors"
+          >
+            {managing ? 'Done' : `Manage ${searches.length} saved ${searches.length === 1 ? 'search' : 'searches'}`}
+          </button>
+        </div>
+      )}
+
+      {managing && (
+        <div className="space-y-2">
+          {searches.map((search, index) => (
+            <div
+              key={search.id}
+              className={`glass-effect rounded-xl border p-3 flex items-center justify-between ${
+                search.id === activeId ? 'border-blue-500/30' : 'border-slate-700/50'
+              }`}
+            >
+              <button onClick={() => onRun(search)} className="text-left min-w-0 flex-1 group">
+                <span className="text-white font-medium flex items-center space-x-2 group-hover:text-blue-400 transition-colors">
+                  <Play className="h-3 w-3" />
+                  <span className="truncate">{search.name}</span>
+                </span>
+                <span className="block text-xs text-slate-400 truncate">{describeFilters(search.filters)}</span>
+                <span className="block text-xs text-slate-500">
+                  {formatLastRun(search)}
+                  {search.watched && (search.lastCheckedAt
+                    ? ` · watched, last checked ${new Date(search.lastCheckedAt).toLocaleTimeString()}`
+                    : ' · watched, checked on every refresh')}
+                </span>
+              </button>
+              <div className="flex items-center space-x-1 ml-3">
+                <button
+                  onClick={() => onSearchesChange(searches.map(candidate =>
+                    candidate.id === search.id ? setWatched(candidate, !candidate.watched) : candidate
+                  ))}
+                  aria-pressed={Boolean(search.watched)}
+                  title={search.watched ? 'Stop watching' : 'Watch: alert on new matches'}
+                  className={`p-1 rounded transition-colors ${search.watched ? 'text-green-400' : 'text-slate-400 hover:text-white'}`}
+                >
+                  <Eye className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => update(search.id, { pinned: !search.pinned })}
+                  aria-pressed={search.pinned}
+                  title={search.pinned ? 'Unpin' : 'Pin to the Discover bar'}
+                  className={`p-1 rounded transition-colors ${search.pinned ? 'text-blue-400' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {search.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => onSearchesChange(moveSavedSearch(searches, search.id, -1))}
+                  disabled={index === 0}
+                  title="Move up"
+                  className="p-1 rounded text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onSearchesChange(moveSavedSearch(searches, search.id, 1))}
+                  disabled={index === searches.length - 1}
+                  title="Move down"
+                  className="p-1 rounded text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onSearchesChange(searches.filter(candidate => candidate.id !== search.id))}
+                  title="Delete"
+                  className="p-1 rounded text-slate-400 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
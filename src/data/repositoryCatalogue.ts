@@ -0,0 +1,56 @@
+import { CatalogueEntry } from '../types';
+
+// Bump when entries are added, removed or renamed so cached catalogue details are refetched
+export const REPOSITORY_CATALOGUE_VERSION = 1;
+
+// Curated projects that welcome first-time contributors. Languages and topics are ours
+// rather than GitHub's, so the beginner tab can filter before any details are fetched.
+export const REPOSITORY_CATALOGUE: CatalogueEntry[] = [
+  { fullName: 'freeCodeCamp/freeCodeCamp', language: 'TypeScript', topics: ['education', 'web'] },
+  { fullName: 'microsoft/vscode', language: 'TypeScript', topics: ['editor', 'devtools'] },
+  { fullName: 'facebook/react', language: 'JavaScript', topics: ['frontend', 'framework'] },
+  { fullName: 'vuejs/core', language: 'TypeScript', topics: ['frontend', 'framework'] },
+  { fullName: 'angular/angular', language: 'TypeScript', topics: ['frontend', 'framework'] },
+  { fullName: 'nodejs/node', language: 'JavaScript', topics: ['runtime'] },
+  { fullName: 'tensorflow/tensorflow', language: 'C++', topics: ['machine-learning'] },
+  { fullName: 'kubernetes/kubernetes', language: 'Go', topics: ['infrastructure', 'cloud'] },
+  { fullName: 'elastic/elasticsearch', language: 'Java', topics: ['database', 'search'] },
+  { fullName: 'rails/rails', language: 'Ruby', topics: ['backend', 'framework'] },
+  { fullName: 'laravel/framework', language: 'PHP', topics: ['backend', 'framework'] },
+  { fullName: 'symfony/symfony', language: 'PHP', topics: ['backend', 'framework'] },
+  { fullName: 'spring-projects/spring-boot', language: 'Java', topics: ['backend', 'framework'] },
+  { fullName: 'apache/kafka', language: 'Java', topics: ['infrastructure', 'streaming'] },
+  { fullName: 'mozilla/pdf.js', language: 'JavaScript', topics: ['web', 'documents'] },
+  { fullName: 'gatsbyjs/gatsby', language: 'JavaScript', topics: ['frontend', 'framework'] },
+  { fullName: 'nuxt/nuxt', language: 'TypeScript', topics: ['frontend', 'framework'] },
+  { fullName: 'nestjs/nest', language: 'TypeScript', topics: ['backend', 'framework'] },
+  { fullName: 'expressjs/express', language: 'JavaScript', topics: ['backend', 'framework'] },
+  { fullName: 'socketio/socket.io', language: 'TypeScript', topics: ['backend', 'realtime'] },
+  { fullName: 'lodash/lodash', language: 'JavaScript', topics: ['library'] },
+  { fullName: 'chartjs/Chart.js', language: 'JavaScript', topics: ['frontend', 'visualization'] },
+  { fullName: 'prettier/prettier', language: 'JavaScript', topics: ['devtools'] },
+  { fullName: 'eslint/eslint', language: 'JavaScript', topics: ['devtools'] },
+  { fullName: 'webpack/webpack', language: 'JavaScript', topics: ['devtools', 'build'] },
+  { fullName: 'babel/babel', language: 'TypeScript', topics: ['devtools', 'build'] },
+  { fullName: 'storybookjs/storybook', language: 'TypeScript', topics: ['frontend', 'devtools'] },
+  { fullName: 'jestjs/jest', language: 'TypeScript', topics: ['testing', 'devtools'] },
+  { fullName: 'cypress-io/cypress', language: 'TypeScript', topics: ['testing', 'devtools'] },
+  { fullName: 'puppeteer/puppeteer', language: 'TypeScript', topics: ['testing', 'automation'] },
+  { fullName: 'microsoft/TypeScript', language: 'TypeScript', topics: ['language', 'compiler'] },
+  { fullName: 'golang/go', language: 'Go', topics: ['language', 'compiler'], goodFirstIssueLabel: 'help wanted' },
+  { fullName: 'rust-lang/rust', language: 'Rust', topics: ['language', 'compiler'], goodFirstIssueLabel: 'E-easy' },
+  { fullName: 'python/cpython', language: 'Python', topics: ['language', 'runtime'], goodFirstIssueLabel: 'easy' },
+  { fullName: 'dotnet/runtime', language: 'C#', topics: ['runtime'] },
+  { fullName: 'flutter/flutter', language: 'Dart', topics: ['mobile', 'framework'] },
+  { fullName: 'ionic-team/ionic-framework', language: 'TypeScript', topics: ['mobile', 'framework'] },
+  { fullName: 'apache/spark', language: 'Scala', topics: ['data', 'big-data'] },
+  { fullName: 'pandas-dev/pandas', language: 'Python', topics: ['data', 'library'] },
+  { fullName: 'numpy/numpy', language: 'Python', topics: ['data', 'library'] },
+  { fullName: 'scikit-learn/scikit-learn', language: 'Python', topics: ['machine-learning', 'library'] },
+  { fullName: 'jupyter/notebook', language: 'Python', topics: ['data', 'devtools'] },
+  { fullName: 'home-assistant/core', language: 'Python', topics: ['home-automation'] },
+  { fullName: 'ansible/ansible', language: 'Python', topics: ['infrastructure', 'automation'] },
+  { fullName: 'grafana/grafana', language: 'TypeScript', topics: ['observability', 'visualization'] },
+  { fullName: 'prometheus/prometheus', language: 'Go', topics: ['observability', 'infrastructure'] },
+  { fullName: 'hashicorp/terraform', language: 'Go', topics: ['infrastructure', 'cloud'] },
+];
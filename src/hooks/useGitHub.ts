@@ -1,234 +1,369 @@
-import { useState, useEffect, useCallback } from 'react';
-import { githubService, GitHubUser, GitHubRepository, GitHubIssue } from '../services/github';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { githubService, GitHubUser, GitHubRepository, GitHubIssue, GitHubLabel, GitHubError, AuthError, SearchPage, isAbortError, toGitHubError } from '../services/github';
+import { queryCache, QueryContext, QueryKey } from '../services/queryCache';
+import { claimService } from '../services/claims';
+import { healthService } from '../services/health';
+import { labelMappingService } from '../services/labels';
+import { catalogueService, CatalogueRepository } from '../services/catalogue';
+import { REPOSITORY_CATALOGUE_VERSION } from '../data/repositoryCatalogue';
+import { IssueClaim, RepositoryHealth, SearchExclusions } from '../types';
+import { useQuery } from './useQuery';
 
-export const useGitHub = () => {
-  const [user, setUser] = useState<GitHubUser | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Hands out a fresh AbortSignal per request, aborting the previous request and,
+// on unmount, the last one, so late responses never land in stale or unmounted state.
+export const useLatestRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    const token = githubService.getToken();
-    if (token) {
-      fetchCurrentUser();
-    } else {
-      setLoading(false);
-    }
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
   }, []);
 
-  const fetchCurrentUser = async () => {
-    try {
-      setLoading(true);
-      const userData = await githubService.getCurrentUser();
-      setUser(userData);
-      setIsAuthenticated(true);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch user');
-      setIsAuthenticated(false);
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  return { start, cancel };
+};
+
+type RepositorySort = 'stars' | 'updated' | 'forks';
+type IssueSort = 'updated' | 'stars' | 'created';
+
+const USER_QUERY_KEY = ['user'];
+// Stable fallback so effects keyed on a list don't rerun while there is no data
+const EMPTY_LIST: never[] = [];
+
+// Shared by every component that needs the signed-in user, so /user is requested once
+const fetchCurrentUser = async ({ signal }: QueryContext<GitHubUser>) => {
+  try {
+    return await githubService.getCurrentUser({ signal });
+  } catch (err) {
+    // Only a rejected token ends the session; outages and rate limits should not log the user out
+    if (err instanceof AuthError) {
       githubService.clearToken();
-    } finally {
-      setLoading(false);
     }
-  };
+    throw err;
+  }
+};
+
+export const useGitHub = () => {
+  const { data: user, error, loading, refetch } = useQuery(USER_QUERY_KEY, fetchCurrentUser, {
+    enabled: Boolean(githubService.getToken()),
+    staleTime: Infinity,
+  });
 
   const login = useCallback(async (token: string) => {
     githubService.setToken(token);
-    await fetchCurrentUser();
+    try {
+      await queryCache.fetch(USER_QUERY_KEY, fetchCurrentUser, { force: true });
+    } catch (err) {
+      throw toGitHubError(err, 'Failed to fetch user');
+    }
   }, []);
 
   const logout = useCallback(() => {
     githubService.clearToken();
-    setUser(null);
-    setIsAuthenticated(false);
-    setError(null);
+    // Cached results belong to the old token
+    queryCache.clear();
   }, []);
 
   return {
-    user,
-    isAuthenticated,
+    user: user ?? null,
+    isAuthenticated: Boolean(user) && !(error instanceof AuthError),
     loading,
     error,
     login,
     logout,
-    refetch: fetchCurrentUser,
+    refetch,
   };
 };
 
 export const useRepositories = (username?: string) => {
-  const [repositories, setRepositories] = useState<GitHubRepository[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchRepositories = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const repos = await githubService.getUserRepositories(username);
-      setRepositories(repos);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch repositories');
-    } finally {
-      setLoading(false);
+  const { data, loading, error, refetch } = useQuery<GitHubRepository[]>(
+    ['repositories', username ?? null],
+    async ({ signal, setData }) => {
+      let repositories: GitHubRepository[] = [];
+      // Stream pages in as they arrive instead of waiting for the whole list
+      for await (const page of githubService.iterateUserRepositories(username, { signal })) {
+        repositories = [...repositories, ...page];
+        setData(repositories);
+      }
+      return repositories;
     }
-  }, [username]);
-
-  useEffect(() => {
-    fetchRepositories();
-  }, [fetchRepositories]);
+  );
 
   return {
-    repositories,
+    repositories: data ?? EMPTY_LIST,
     loading,
     error,
-    refetch: fetchRepositories,
+    refetch,
   };
 };
 
-export const useBeginnerRepositories = () => {
-  const [repositories, setRepositories] = useState<GitHubRepository[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchBeginnerRepos = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const repos = await githubService.getBeginnerFriendlyRepos();
-      setRepositories(repos);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch beginner repositories');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+const EMPTY_CATALOGUE: CatalogueRepository[] = [];
 
-  useEffect(() => {
-    fetchBeginnerRepos();
-  }, [fetchBeginnerRepos]);
+// The curated beginner catalogue with live details, flags and newcomer issue counts
+export const useRepositoryCatalogue = () => {
+  const { data, loading, error, refetch } = useQuery<CatalogueRepository[]>(
+    ['repositoryCatalogue', REPOSITORY_CATALOGUE_VERSION],
+    ({ signal }) => catalogueService.getCatalogue({ signal })
+  );
 
   return {
-    repositories,
+    catalogue: data ?? EMPTY_CATALOGUE,
     loading,
     error,
-    refetch: fetchBeginnerRepos,
+    refetch,
   };
 };
 
 export const useIssues = (owner: string, repo: string, enabled = true) => {
-  const [issues, setIssues] = useState<GitHubIssue[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const fetchIssues = useCallback(async () => {
-    if (!enabled || !owner || !repo) return;
-    
-    try {
-      setLoading(true);
-      setError(null);
-      const issueData = await githubService.getRepositoryIssues(owner, repo);
-      setIssues(issueData);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch issues');
-    } finally {
-      setLoading(false);
-    }
-  }, [owner, repo, enabled]);
-
-  useEffect(() => {
-    fetchIssues();
-  }, [fetchIssues]);
+  const { data, loading, error, refetch } = useQuery<GitHubIssue[]>(
+    ['issues', owner, repo],
+    async ({ signal, setData }) => {
+      let issues: GitHubIssue[] = [];
+      for await (const page of githubService.iterateRepositoryIssues(owner, repo, 'open', { signal })) {
+        issues = [...issues, ...page];
+        setData(issues);
+      }
+      return issues;
+    },
+    { enabled: enabled && Boolean(owner && repo) }
+  );
 
   return {
-    issues,
-    loading,
+    issues: data ?? EMPTY_LIST,
+    loading: enabled && Boolean(owner && repo) && loading,
     error,
-    refetch: fetchIssues,
+    refetch,
   };
 };
 
+type BeginnerIssueParams = [
+  string | string[] | undefined,
+  string | string[] | undefined,
+  IssueSort,
+  IssueSort | undefined,
+  string | undefined,
+  SearchExclusions | undefined,
+];
+
+// Exclusions go into the key as JSON since key parts are flat values or lists
+const beginnerIssuesKey = ([language, label, primarySort, secondarySort, repository, exclusions]: BeginnerIssueParams): QueryKey =>
+  ['beginnerIssues', language, label, primarySort, secondarySort, repository, exclusions && JSON.stringify(exclusions)];
+
 export const useBeginnerIssues = () => {
-  const [issues, setIssues] = useState<GitHubIssue[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [params, setParams] = useState<BeginnerIssueParams | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<GitHubError | null>(null);
+  const { start, cancel } = useLatestRequest();
+  const { data, loading, error, refetch } = useQuery<SearchPage<GitHubIssue>>(
+    params && beginnerIssuesKey(params),
+    ({ signal }) => githubService.searchBeginnerIssues(...params!, { signal })
+  );
+
+  // Searching again with unchanged parameters is an explicit refresh
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
 
-  const searchIssues = useCallback(async (
-    language?: string, 
-    label?: string, 
-    primarySort: 'updated' | 'stars' | 'created' = 'updated',
-    secondarySort?: 'updated' | 'stars' | 'created'
+  const searchIssues = useCallback((
+    language?: string | string[],
+    label?: string | string[],
+    primarySort: IssueSort = 'updated',
+    secondarySort?: IssueSort,
+    repository?: string,
+    exclusions?: SearchExclusions
   ) => {
+    // Any page still loading belongs to the previous results
+    cancel();
+    setLoadingMore(false);
+    setLoadMoreError(null);
+
+    const next: BeginnerIssueParams = [language, label, primarySort, secondarySort, repository, exclusions];
+    if (paramsRef.current && queryCache.hashKey(beginnerIssuesKey(paramsRef.current)) === queryCache.hashKey(beginnerIssuesKey(next))) {
+      refetch();
+      return;
+    }
+    setParams(next);
+  }, [cancel, refetch]);
+
+  // Append the next page to the cached results so every subscriber sees the longer list
+  const loadMore = useCallback(async () => {
+    if (!params || !data?.hasMore || loadingMore) return;
+
+    const signal = start();
     try {
-      setLoading(true);
-      setError(null);
-      const response = await githubService.searchBeginnerIssues(language, label, primarySort, secondarySort);
-      setIssues(response.items);
+      setLoadingMore(true);
+      setLoadMoreError(null);
+      const next = await githubService.searchBeginnerIssues(...params, { page: data.page + 1, signal });
+      queryCache.setData<SearchPage<GitHubIssue>>(beginnerIssuesKey(params), prev => {
+        if (!prev) return next;
+        // Results shift between requests, so the same issue can show up on two pages
+        const seen = new Set(prev.items.map(issue => issue.id));
+        return {
+          ...next,
+          items: [...prev.items, ...next.items.filter(issue => !seen.has(issue.id))],
+          // Keep a running count per query; the latest page decides whether it failed
+          queries: next.queries.map(report => ({
+            ...report,
+            itemCount: report.itemCount + (prev.queries.find(previous => previous.query === report.query)?.itemCount ?? 0),
+          })),
+        };
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to search beginner issues');
+      if (isAbortError(err)) return;
+      setLoadMoreError(toGitHubError(err, 'Failed to load more issues'));
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoadingMore(false);
     }
-  }, []);
+  }, [params, data, loadingMore, start]);
 
   return {
-    issues,
-    loading,
-    error,
+    issues: data?.items ?? EMPTY_LIST,
+    totalCount: data?.totalCount ?? 0,
+    approximateTotal: Boolean(data?.approximateTotal),
+    hasMore: Boolean(data?.hasMore),
+    incompleteResults: Boolean(data?.incompleteResults),
+    queries: data?.queries ?? EMPTY_LIST,
+    loading: Boolean(params) && loading,
+    loadingMore,
+    error: error ?? loadMoreError,
     searchIssues,
+    loadMore,
   };
 };
 
-export const useRepositorySearch = () => {
-  const [results, setResults] = useState<GitHubRepository[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+type RepositorySearchParams =
+  | { kind: 'query'; args: [string, RepositorySort, RepositorySort | undefined] }
+  | { kind: 'beginner'; args: [string | undefined, RepositorySort, RepositorySort | undefined] };
 
-  const search = useCallback(async (
-    query: string, 
-    primarySort: 'stars' | 'updated' | 'forks' = 'stars',
-    secondarySort?: 'stars' | 'updated' | 'forks'
-  ) => {
-    if (!query.trim()) {
-      setResults([]);
-      return;
+export const useRepositorySearch = () => {
+  const [params, setParams] = useState<RepositorySearchParams | null>(null);
+  const { data, loading, error } = useQuery<GitHubRepository[]>(
+    params && ['repositorySearch', params.kind, ...params.args],
+    async ({ signal }) => {
+      const response = params!.kind === 'query'
+        ? await githubService.searchRepositories(...params!.args, { signal })
+        : await githubService.searchBeginnerRepos(...params!.args, { signal });
+      return response.items;
     }
+  );
 
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await githubService.searchRepositories(query, primarySort, secondarySort);
-      setResults(response.items);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Search failed');
-      setResults([]);
-    } finally {
-      setLoading(false);
-    }
+  const search = useCallback((
+    query: string,
+    primarySort: RepositorySort = 'stars',
+    secondarySort?: RepositorySort
+  ) => {
+    // Clearing the query drops the subscription, which aborts any search still in flight
+    setParams(query.trim() ? { kind: 'query', args: [query, primarySort, secondarySort] } : null);
   }, []);
 
-  const searchBeginnerRepos = useCallback(async (
-    language?: string, 
-    primarySort: 'stars' | 'updated' | 'forks' = 'stars',
-    secondarySort?: 'stars' | 'updated' | 'forks'
+  const searchBeginnerRepos = useCallback((
+    language?: string,
+    primarySort: RepositorySort = 'stars',
+    secondarySort?: RepositorySort
   ) => {
-    try {
-      setLoading(true);
-      setError(null);
-      const response = await githubService.searchBeginnerRepos(language, primarySort, secondarySort);
-      setResults(response.items);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Search failed');
-      setResults([]);
-    } finally {
-      setLoading(false);
-    }
+    setParams({ kind: 'beginner', args: [language, primarySort, secondarySort] });
   }, []);
 
   return {
-    results,
-    loading,
-    error,
+    results: params && !error ? data ?? EMPTY_LIST : EMPTY_LIST,
+    loading: Boolean(params) && loading,
+    error: params ? error : null,
     search,
     searchBeginnerRepos,
   };
-};
\ No newline at end of file
+};
+
+// Claim status for a list of issues, resolved in the background once the issues are shown
+export const useIssueClaims = (issues: GitHubIssue[]) => {
+  const [claims, setClaims] = useState<Map<number, IssueClaim>>(() => new Map());
+  const [loading, setLoading] = useState(false);
+  const { start, cancel } = useLatestRequest();
+
+  useEffect(() => {
+    if (issues.length === 0) {
+      cancel();
+      setClaims(new Map());
+      setLoading(false);
+      return;
+    }
+
+    const signal = start();
+    setLoading(true);
+    claimService.resolveClaims(issues, { signal })
+      .then(resolved => {
+        if (!signal.aborted) setClaims(resolved);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.warn('Failed to resolve issue claims:', err);
+      })
+      .finally(() => {
+        if (!signal.aborted) setLoading(false);
+      });
+  }, [issues, start, cancel]);
+
+  return { claims, loading };
+};
+
+const EMPTY_HEALTH = new Map<string, RepositoryHealth>();
+
+// Health scores keyed by repository full name
+export const useRepositoryHealth = (fullNames: string[], enabled = true) => {
+  const names = [...new Set(fullNames)].sort();
+  const { data, loading } = useQuery<Map<string, RepositoryHealth>>(
+    names.length > 0 ? ['repositoryHealth', ...names] : null,
+    ({ signal }) => healthService.getHealth(names, { signal }),
+    { enabled }
+  );
+
+  return {
+    health: data ?? EMPTY_HEALTH,
+    loading: enabled && loading,
+  };
+};
+
+const EMPTY_CLA_REQUIREMENTS = new Map<string, boolean>();
+
+// Whether each repository asks for a signed CLA, keyed by full name; unknown ones are missing
+export const useClaRequirements = (fullNames: string[], enabled = true) => {
+  const names = [...new Set(fullNames)].sort();
+  const { data, loading } = useQuery<Map<string, boolean>>(
+    names.length > 0 ? ['claRequirements', ...names] : null,
+    ({ signal }) => githubService.getClaRequirements(names, { signal }),
+    { enabled }
+  );
+
+  return {
+    claRequirements: data ?? EMPTY_CLA_REQUIREMENTS,
+    loading: enabled && loading,
+  };
+};
+
+const EMPTY_LABELS = new Map<string, GitHubLabel[]>();
+
+// Label catalogues keyed by repository full name
+export const useRepositoryLabels = (fullNames: string[], enabled = true) => {
+  const names = [...new Set(fullNames)].sort();
+  const { data, loading } = useQuery<Map<string, GitHubLabel[]>>(
+    names.length > 0 ? ['repositoryLabels', ...names] : null,
+    ({ signal }) => labelMappingService.getLabels(names, { signal }),
+    { enabled }
+  );
+
+  return {
+    labels: data ?? EMPTY_LABELS,
+    loading: enabled && loading,
+  };
+};
+
+// Live view of the rate-limit budgets reported by the most recent GitHub responses
+export const useRateLimit = () => {
+  const tracker = githubService.getRateLimitTracker();
+  return useSyncExternalStore(tracker.subscribe, tracker.getSnapshot);
+};
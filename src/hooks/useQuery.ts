@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { queryCache, QueryFetcher, QueryKey, QueryState, DEFAULT_STALE_TIME } from '../services/queryCache';
+
+interface UseQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+const noopUnsubscribe = () => {};
+const IDLE_STATE: QueryState<never> = { error: null, status: 'idle', isFetching: false, updatedAt: 0 };
+
+// Subscribe a component to a shared query. Passing a null key keeps the hook idle.
+export const useQuery = <T>(key: QueryKey | null, fetcher: QueryFetcher<T>, options: UseQueryOptions = {}) => {
+  const { enabled = true, staleTime = DEFAULT_STALE_TIME } = options;
+  const hash = key ? queryCache.hashKey(key) : null;
+
+  // Keep the latest fetcher without making it an effect dependency
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback(
+    (listener: () => void) => (hash ? queryCache.subscribe(JSON.parse(hash), listener) : noopUnsubscribe),
+    [hash]
+  );
+  const getSnapshot = useCallback(
+    () => (hash ? queryCache.getState<T>(JSON.parse(hash)) : IDLE_STATE as QueryState<T>),
+    [hash]
+  );
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const run = useCallback((force: boolean) => {
+    if (!hash) return Promise.resolve(undefined);
+    return queryCache
+      .fetch<T>(JSON.parse(hash), context => fetcherRef.current(context), { force, staleTime })
+      .catch(() => undefined); // Errors live in the query state
+  }, [hash, staleTime]);
+
+  // Serves cached data immediately and revalidates it once it is stale
+  useEffect(() => {
+    if (enabled) {
+      run(false);
+    }
+  }, [enabled, run]);
+
+  const refetch = useCallback(() => run(true), [run]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: state.status === 'loading' || (enabled && !!hash && state.status === 'idle'),
+    isFetching: state.isFetching,
+    updatedAt: state.updatedAt,
+    refetch,
+  };
+};
@@ -0,0 +1,94 @@
+import { githubService, GitHubRepository, NotFoundError, RequestOptions, isAbortError } from './github';
+import { REPOSITORY_CATALOGUE, REPOSITORY_CATALOGUE_VERSION } from '../data/repositoryCatalogue';
+import { CatalogueEntry, CatalogueFlag } from '../types';
+
+export interface CatalogueRepository {
+  entry: CatalogueEntry;
+  // Null when GitHub no longer has the repository or the lookup failed
+  repository: GitHubRepository | null;
+  flags: CatalogueFlag[];
+  // Open issues with the entry's newcomer label; null when they could not be counted
+  goodFirstIssues: number | null;
+}
+
+const DEFAULT_GOOD_FIRST_ISSUE_LABEL = 'good first issue';
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const FLAG_DESCRIPTIONS: Record<CatalogueFlag, string> = {
+  archived: 'Archived: no longer accepting contributions',
+  renamed: 'Moved to a new name; the catalogue entry is out of date',
+  'issues-disabled': 'Issues are tracked outside GitHub',
+  missing: 'Not found on GitHub',
+  'lookup-failed': 'Could not be loaded from GitHub; retried on the next load',
+};
+
+export const describeCatalogueFlag = (flag: CatalogueFlag) => FLAG_DESCRIPTIONS[flag];
+
+// Checks a looked-up repository against its catalogue entry. GitHub follows renames, so a
+// different full name in the response means the entry points at an old name.
+const validateEntry = (entry: CatalogueEntry, repository: GitHubRepository | null | undefined): CatalogueFlag[] => {
+  if (repository === undefined) return ['lookup-failed'];
+  if (repository === null) return ['missing'];
+
+  const flags: CatalogueFlag[] = [];
+  if (repository.archived) flags.push('archived');
+  if (repository.full_name.toLowerCase() !== entry.fullName.toLowerCase()) flags.push('renamed');
+  if (!repository.has_issues) flags.push('issues-disabled');
+  return flags;
+};
+
+// Loads the curated catalogue with live details for every entry. Lookups run in parallel and
+// the results are cached for a few hours, keyed by catalogue version so edits take effect at once.
+class CatalogueService {
+  private cache: { version: number; repositories: CatalogueRepository[]; storedAt: number } | null = null;
+
+  async getCatalogue(options: RequestOptions = {}): Promise<CatalogueRepository[]> {
+    if (
+      this.cache
+      && this.cache.version === REPOSITORY_CATALOGUE_VERSION
+      && Date.now() - this.cache.storedAt < CACHE_TTL_MS
+    ) {
+      return this.cache.repositories;
+    }
+
+    const [details, counts] = await Promise.all([
+      Promise.all(REPOSITORY_CATALOGUE.map(entry => this.getDetails(entry, options))),
+      githubService.getLabelledIssueCounts(
+        REPOSITORY_CATALOGUE.map(entry => ({
+          fullName: entry.fullName,
+          label: entry.goodFirstIssueLabel ?? DEFAULT_GOOD_FIRST_ISSUE_LABEL,
+        })),
+        options
+      ),
+    ]);
+
+    const repositories = REPOSITORY_CATALOGUE.map((entry, index) => {
+      const repository = details[index];
+      const flags = validateEntry(entry, repository);
+      flags.forEach(flag => console.warn(`Catalogue entry ${entry.fullName}: ${describeCatalogueFlag(flag)}`));
+      return { entry, repository: repository ?? null, flags, goodFirstIssues: counts.get(entry.fullName) ?? null };
+    });
+
+    // Failed lookups are retried on the next load rather than cached
+    if (!details.includes(undefined)) {
+      this.cache = { version: REPOSITORY_CATALOGUE_VERSION, repositories, storedAt: Date.now() };
+    }
+    return repositories;
+  }
+
+  // Null when GitHub reports the repository gone, undefined when the lookup itself failed
+  private async getDetails(entry: CatalogueEntry, options: RequestOptions): Promise<GitHubRepository | null | undefined> {
+    const [owner, repo] = entry.fullName.split('/');
+    try {
+      return await githubService.getRepository(owner, repo, options);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (error instanceof NotFoundError) return null;
+      console.warn(`Failed to fetch ${entry.fullName}:`, error);
+      return undefined;
+    }
+  }
+}
+
+export const catalogueService = new CatalogueService();
@@ -0,0 +1,108 @@
+import { githubService, GitHubIssue, IssueActivity, RequestOptions } from './github';
+import { ClaimEvidence, IssueClaim } from '../types';
+
+// Comments asking for or announcing work on an issue
+const CLAIM_PATTERNS = [
+  /\b(?:i'?d|i would) (?:like|love) to (?:work on|take|tackle|pick up|try|give)\b/i,
+  /\b(?:can|could|may) i (?:work on|take|tackle|pick up|grab|try|be assigned)\b/i,
+  /\bi(?:'m| am) (?:working on|going to work on|taking|picking up) (?:this|it)\b/i,
+  /\bi(?:'ll| will) (?:work on|take|tackle|pick up) (?:this|it)\b/i,
+  /\bi want to work on (?:this|it)\b/i,
+  /\b(?:please )?assign (?:this |it )?(?:issue )?to me\b/i,
+  /\bclaim(?:ing)? (?:this|it)\b/i,
+  /^\/(?:assign|take|claim)\b/im,
+];
+
+// A claim nobody followed up on within this many days is treated as abandoned
+const CLAIM_EXPIRY_DAYS = 30;
+
+const getRepositoryFullName = (issue: GitHubIssue) => issue.repository_url.split('/').slice(-2).join('/');
+
+// Derives whether an open issue is free to pick up from its assignees, linked pull requests
+// and recent comments. Results are cached per issue revision, so re-rendering and paging
+// through search results only fetch activity for issues that have not been seen yet.
+class ClaimService {
+  private cache = new Map<string, IssueClaim>();
+
+  detectClaim(issue: GitHubIssue, activity?: IssueActivity): IssueClaim {
+    const linkedPullRequests = activity?.linkedPullRequests ?? issue.linked_pull_requests ?? [];
+    const recentComments = activity?.recentComments ?? issue.recent_comments ?? [];
+    const assignedAt = activity?.assignedAt ?? issue.assigned_at ?? {};
+    const evidence: ClaimEvidence[] = [];
+
+    // Closed, unmerged pull requests were abandoned and do not count
+    const activePullRequests = linkedPullRequests.filter(pr => pr.state !== 'closed');
+    activePullRequests.forEach(pr => {
+      evidence.push({
+        kind: 'pull-request',
+        description: `${pr.state === 'merged' ? 'Merged' : 'Open'} PR #${pr.number}: ${pr.title}`,
+        url: pr.html_url,
+        createdAt: pr.linked_at,
+      });
+    });
+
+    const assignees = issue.assignees?.length ? issue.assignees : issue.assignee ? [issue.assignee] : [];
+    assignees.forEach(assignee => {
+      evidence.push({ kind: 'assignee', description: `Assigned to @${assignee.login}`, createdAt: assignedAt[assignee.login] });
+    });
+
+    const cutoff = Date.now() - CLAIM_EXPIRY_DAYS * 24 * 60 * 60 * 1000;
+    recentComments
+      .filter(comment => new Date(comment.created_at).getTime() >= cutoff)
+      .filter(comment => CLAIM_PATTERNS.some(pattern => pattern.test(comment.body)))
+      .forEach(comment => {
+        evidence.push({
+          kind: 'comment',
+          description: `@${comment.user?.login ?? 'ghost'} asked to work on it`,
+          url: comment.html_url,
+          createdAt: comment.created_at,
+        });
+      });
+
+    const status = activePullRequests.length > 0 ? 'in-review' : evidence.length > 0 ? 'claimed' : 'available';
+    return { status, evidence };
+  }
+
+  // Resolve claims for a list of issues, keyed by issue id. Issues that came from the GraphQL
+  // batch fetch already carry their activity; search results need it fetched first.
+  async resolveClaims(issues: GitHubIssue[], options: RequestOptions = {}): Promise<Map<number, IssueClaim>> {
+    const claims = new Map<number, IssueClaim>();
+    const unresolved: GitHubIssue[] = [];
+
+    issues.forEach(issue => {
+      const cached = this.cache.get(this.getCacheKey(issue));
+      if (cached) {
+        claims.set(issue.id, cached);
+      } else if (issue.linked_pull_requests && issue.recent_comments) {
+        claims.set(issue.id, this.remember(issue, this.detectClaim(issue)));
+      } else {
+        unresolved.push(issue);
+      }
+    });
+
+    if (unresolved.length > 0) {
+      const references = unresolved.map(issue => ({ repository: getRepositoryFullName(issue), number: issue.number }));
+      const activity = await githubService.getIssueActivity(references, options);
+
+      unresolved.forEach((issue, index) => {
+        // Without activity only the assignee is known; don't cache so it is retried next time
+        const issueActivity = activity.get(githubService.getIssueKey(references[index]));
+        const claim = this.detectClaim(issue, issueActivity);
+        claims.set(issue.id, issueActivity ? this.remember(issue, claim) : claim);
+      });
+    }
+
+    return claims;
+  }
+
+  private getCacheKey(issue: GitHubIssue): string {
+    return `${issue.id}:${issue.updated_at}`;
+  }
+
+  private remember(issue: GitHubIssue, claim: IssueClaim): IssueClaim {
+    this.cache.set(this.getCacheKey(issue), claim);
+    return claim;
+  }
+}
+
+export const claimService = new ClaimService();
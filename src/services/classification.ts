@@ -0,0 +1,302 @@
+import { ValidationError } from './errors';
+import { ClassificationField, ClassificationRule, Issue } from '../types';
+
+export interface ClassifiableIssue {
+  title: string;
+  labels: string[];
+  repository?: string;
+}
+
+export interface IssueClassification {
+  category: string;
+  // Every matching category, primary first
+  categories: string[];
+  priority: Issue['priority'];
+  difficulty: NonNullable<Issue['difficulty']>;
+  // Id of the rule that decided each field, or null when the fallback was used
+  matchedRules: Record<ClassificationField, string | null>;
+  // Whether a rule with label or title terms decided each field, rather than a catch-all
+  matchedTerms: Record<ClassificationField, boolean>;
+}
+
+export interface ClassificationRuleSet {
+  version: number;
+  rules: ClassificationRule[];
+}
+
+export const CLASSIFICATION_FIELDS: ClassificationField[] = ['category', 'priority', 'difficulty'];
+
+export const CLASSIFICATION_RULES_VERSION = 1;
+
+// Allowed values for the fields that are not free-form
+export const CLASSIFICATION_LEVELS: Partial<Record<ClassificationField, string[]>> = {
+  priority: ['low', 'medium', 'high'],
+  difficulty: ['beginner', 'intermediate', 'advanced'],
+};
+
+// Used when no rule matches, including when every catch-all rule has been deleted
+const FALLBACKS = { category: 'other', priority: 'low', difficulty: 'intermediate' } as const;
+
+const BEGINNER_LABELS = [
+  'good first issue', 'beginner', 'beginner-friendly', 'easy', 'starter', 'newcomer', 'first-timers-only',
+  'up-for-grabs', 'help wanted', 'documentation', 'docs', 'typo', 'enhancement', 'feature', 'hacktoberfest',
+  'low-hanging-fruit', 'easy-fix', 'junior-job',
+];
+
+// The built-in rules, in the order the original hard-coded checks ran
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+  { id: 'category-good-first-issue', field: 'category', value: 'good-first-issue', priority: 190, labels: ['good first issue'] },
+  { id: 'category-documentation', field: 'category', value: 'documentation', priority: 180, labels: ['documentation', 'docs'] },
+  { id: 'category-beginner-friendly', field: 'category', value: 'beginner-friendly', priority: 170, labels: ['beginner', 'beginners', 'easy'] },
+  { id: 'category-help-wanted', field: 'category', value: 'help-wanted', priority: 160, labels: ['help wanted', 'up-for-grabs'] },
+  {
+    id: 'category-feature', field: 'category', value: 'feature', priority: 150,
+    labels: ['feature', 'features', 'new feature'], title: ['add', 'adds', 'implement', 'implements', 'implementation'],
+  },
+  {
+    id: 'category-performance', field: 'category', value: 'performance', priority: 140,
+    labels: ['performance', 'optimization', 'optimisation'], title: ['optimize', 'optimise', 'optimization', 'performance'],
+  },
+  { id: 'category-ui-ux', field: 'category', value: 'ui-ux', priority: 130, labels: ['ui', 'ux', 'ui/ux', 'design'], title: ['ui', 'design'] },
+  { id: 'category-testing', field: 'category', value: 'testing', priority: 120, labels: ['test', 'tests', 'testing'], title: ['test', 'tests', 'testing'] },
+  {
+    id: 'category-refactoring', field: 'category', value: 'refactoring', priority: 110,
+    labels: ['refactor', 'refactoring', 'cleanup', 'clean up'], title: ['refactor', 'refactoring', 'cleanup', 'clean up'],
+  },
+  { id: 'category-accessibility', field: 'category', value: 'accessibility', priority: 100, labels: ['accessibility', 'a11y'], title: ['accessibility', 'a11y'] },
+  { id: 'category-api', field: 'category', value: 'api', priority: 90, labels: ['api'], title: ['api'] },
+  { id: 'category-database', field: 'category', value: 'database', priority: 80, labels: ['database', 'db'], title: ['database'] },
+  {
+    id: 'category-deployment', field: 'category', value: 'deployment', priority: 70,
+    labels: ['deploy', 'deployment', 'ci', 'cd'], title: ['deploy', 'deployment'],
+  },
+  { id: 'category-security', field: 'category', value: 'security', priority: 60, labels: ['security', 'vulnerability'] },
+  { id: 'category-bug', field: 'category', value: 'bug', priority: 50, labels: ['bug', 'fix'], title: ['bug', 'error', 'errors'] },
+  { id: 'category-enhancement', field: 'category', value: 'enhancement', priority: 40, labels: ['enhancement'], title: ['feature'] },
+  { id: 'category-typo', field: 'category', value: 'typo', priority: 30, labels: ['typo', 'spelling'] },
+  { id: 'category-other', field: 'category', value: 'other', priority: 0 },
+
+  // Beginner issues are typically low priority for learning
+  { id: 'priority-beginner', field: 'priority', value: 'low', priority: 30, labels: BEGINNER_LABELS },
+  { id: 'priority-high', field: 'priority', value: 'high', priority: 20, labels: ['critical', 'urgent', 'high', 'high priority'] },
+  { id: 'priority-medium', field: 'priority', value: 'medium', priority: 10, labels: ['medium', 'important'] },
+  { id: 'priority-low', field: 'priority', value: 'low', priority: 0 },
+
+  {
+    id: 'difficulty-beginner', field: 'difficulty', value: 'beginner', priority: 20,
+    labels: ['good first issue', 'beginner', 'easy', 'starter', 'first-timers-only', 'documentation', 'typo'],
+  },
+  {
+    id: 'difficulty-advanced', field: 'difficulty', value: 'advanced', priority: 10,
+    labels: ['advanced', 'complex', 'architecture', 'performance', 'security'], title: ['refactor', 'optimize'],
+  },
+  { id: 'difficulty-intermediate', field: 'difficulty', value: 'intermediate', priority: 0 },
+];
+
+// "/.../" terms are regular expressions; anything else matches as whole words, with spaces,
+// hyphens and underscores interchangeable so "good first issue" also matches "good-first-issue"
+const compileTerm = (term: string): RegExp => {
+  const regex = term.match(/^\/(.+)\/$/);
+  if (regex) return new RegExp(regex[1], 'i');
+
+  const words = term.trim().split(/[\s_-]+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`(?<![a-z0-9])${words.join('[\\s_-]+')}(?![a-z0-9])`, 'i');
+};
+
+interface CompiledRule {
+  labels: RegExp[];
+  title: RegExp[];
+  repositories: Set<string> | null;
+  catchAll: boolean;
+}
+
+// Evaluates data-only classification rules. Rules scoped to a repository run before global
+// ones, then by descending priority; the first enabled rule that matches decides priority and
+// difficulty, while every matching category rule adds a category. A rule without label or title
+// terms matches anything but only applies when nothing above it matched, and ends the list, which
+// is how fallbacks and per-repository overrides are expressed.
+class ClassificationService {
+  private compiled = new WeakMap<ClassificationRule, CompiledRule>();
+
+  classify(issue: ClassifiableIssue, rules: ClassificationRule[] = DEFAULT_CLASSIFICATION_RULES): IssueClassification {
+    const matched = (field: ClassificationField) => this.getOrderedRules(rules, field).find(rule => this.matches(rule, issue));
+    const categoryRules = this.matchAll(rules, 'category', issue);
+    const category = categoryRules[0];
+    const priority = matched('priority');
+    const difficulty = matched('difficulty');
+    const categories = [...new Set(categoryRules.map(rule => rule.value))];
+
+    return {
+      category: category?.value ?? FALLBACKS.category,
+      categories: categories.length > 0 ? categories : [FALLBACKS.category],
+      priority: (priority?.value ?? FALLBACKS.priority) as IssueClassification['priority'],
+      difficulty: (difficulty?.value ?? FALLBACKS.difficulty) as IssueClassification['difficulty'],
+      matchedRules: {
+        category: category?.id ?? null,
+        priority: priority?.id ?? null,
+        difficulty: difficulty?.id ?? null,
+      },
+      matchedTerms: {
+        category: Boolean(category && !this.compile(category).catchAll),
+        priority: Boolean(priority && !this.compile(priority).catchAll),
+        difficulty: Boolean(difficulty && !this.compile(difficulty).catchAll),
+      },
+    };
+  }
+
+  // Rules for one field in the order they are evaluated
+  getOrderedRules(rules: ClassificationRule[], field: ClassificationField): ClassificationRule[] {
+    return rules
+      .map((rule, index) => ({ rule, index }))
+      .filter(({ rule }) => rule.field === field && rule.enabled !== false)
+      .sort((a, b) =>
+        Number(Boolean(b.rule.repositories?.length)) - Number(Boolean(a.rule.repositories?.length)) ||
+        b.rule.priority - a.rule.priority ||
+        a.index - b.index
+      )
+      .map(({ rule }) => rule);
+  }
+
+  exportRules(rules: ClassificationRule[]): string {
+    const ruleSet: ClassificationRuleSet = { version: CLASSIFICATION_RULES_VERSION, rules };
+    return JSON.stringify(ruleSet, null, 2);
+  }
+
+  // Accepts an exported rule set or a bare array of rules; reports every problem at once
+  importRules(json: string): ClassificationRule[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new ValidationError('Rules file is not valid JSON');
+    }
+
+    const rules = Array.isArray(parsed) ? parsed : (parsed as Partial<ClassificationRuleSet> | null)?.rules;
+    if (!Array.isArray(rules)) {
+      throw new ValidationError('Rules file must contain a "rules" array');
+    }
+    if (!Array.isArray(parsed) && (parsed as ClassificationRuleSet).version > CLASSIFICATION_RULES_VERSION) {
+      throw new ValidationError(`Rules file version ${(parsed as ClassificationRuleSet).version} is newer than this app supports`);
+    }
+
+    const errors = rules.flatMap((rule, index) => this.validateRule(rule, index));
+    const ids = rules.map(rule => (rule as ClassificationRule)?.id);
+    ids.forEach((id, index) => {
+      if (ids.indexOf(id) !== index) {
+        errors.push({ field: `rules[${index}].id`, code: 'already_exists', message: `Duplicate rule id "${id}"` });
+      }
+    });
+    if (errors.length > 0) {
+      throw new ValidationError(`Rules file has ${errors.length} problem${errors.length === 1 ? '' : 's'}`, errors);
+    }
+
+    return (rules as ClassificationRule[]).map(rule => ({
+      id: rule.id,
+      field: rule.field,
+      value: rule.value,
+      priority: rule.priority,
+      ...(rule.labels?.length ? { labels: rule.labels } : {}),
+      ...(rule.title?.length ? { title: rule.title } : {}),
+      ...(rule.repositories?.length ? { repositories: rule.repositories } : {}),
+      ...(rule.enabled === false ? { enabled: false } : {}),
+    }));
+  }
+
+  validateRule(value: unknown, index: number): ValidationError['errors'] {
+    const prefix = `rules[${index}]`;
+    if (typeof value !== 'object' || value === null) {
+      return [{ field: prefix, code: 'invalid', message: 'Rule must be an object' }];
+    }
+
+    const rule = value as Record<string, unknown>;
+    const errors: ValidationError['errors'] = [];
+    const fail = (field: string, message: string) => errors.push({ field: `${prefix}.${field}`, code: 'invalid', message });
+
+    if (typeof rule.id !== 'string' || !rule.id.trim()) fail('id', 'Rule needs an id');
+    if (!CLASSIFICATION_FIELDS.includes(rule.field as ClassificationField)) {
+      fail('field', `Field must be one of ${CLASSIFICATION_FIELDS.join(', ')}`);
+    } else {
+      const levels = CLASSIFICATION_LEVELS[rule.field as ClassificationField];
+      if (typeof rule.value !== 'string' || !rule.value.trim()) {
+        fail('value', 'Rule needs a value');
+      } else if (levels && !levels.includes(rule.value)) {
+        fail('value', `${rule.field} must be one of ${levels.join(', ')}`);
+      }
+    }
+    if (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority)) fail('priority', 'Priority must be a number');
+    if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') fail('enabled', 'Enabled must be true or false');
+
+    (['labels', 'title', 'repositories'] as const).forEach(key => {
+      const terms = rule[key];
+      if (terms === undefined) return;
+      if (!Array.isArray(terms) || terms.some(term => typeof term !== 'string' || !term.trim())) {
+        fail(key, `${key} must be a list of non-empty strings`);
+        return;
+      }
+      if (key !== 'repositories') {
+        terms.forEach(term => {
+          try {
+            compileTerm(term);
+          } catch {
+            fail(key, `"${term}" is not a valid regular expression`);
+          }
+        });
+      }
+    });
+
+    return errors;
+  }
+
+  // Matching rules in evaluation order, stopping at the first catch-all
+  private matchAll(rules: ClassificationRule[], field: ClassificationField, issue: ClassifiableIssue): ClassificationRule[] {
+    const matched: ClassificationRule[] = [];
+    for (const rule of this.getOrderedRules(rules, field)) {
+      if (!this.matches(rule, issue)) continue;
+      if (this.compile(rule).catchAll) {
+        if (matched.length === 0) matched.push(rule);
+        break;
+      }
+      matched.push(rule);
+    }
+    return matched;
+  }
+
+  private matches(rule: ClassificationRule, issue: ClassifiableIssue): boolean {
+    const compiled = this.compile(rule);
+    if (compiled.repositories && !compiled.repositories.has(issue.repository?.toLowerCase() ?? '')) {
+      return false;
+    }
+    if (compiled.catchAll) {
+      return true;
+    }
+    return (
+      compiled.labels.some(pattern => issue.labels.some(label => pattern.test(label))) ||
+      compiled.title.some(pattern => pattern.test(issue.title))
+    );
+  }
+
+  // Rules are replaced rather than mutated when edited, so compiled patterns are cached per object
+  private compile(rule: ClassificationRule): CompiledRule {
+    let compiled = this.compiled.get(rule);
+    if (!compiled) {
+      // Invalid terms are rejected on import; one typed into the editor simply never matches
+      const safeCompile = (terms: string[] = []) => terms.flatMap(term => {
+        try {
+          return [compileTerm(term)];
+        } catch {
+          return [];
+        }
+      });
+      compiled = {
+        labels: safeCompile(rule.labels),
+        title: safeCompile(rule.title),
+        repositories: rule.repositories?.length ? new Set(rule.repositories.map(name => name.toLowerCase())) : null,
+        catchAll: !rule.labels?.length && !rule.title?.length,
+      };
+      this.compiled.set(rule, compiled);
+    }
+    return compiled;
+  }
+}
+
+export const classificationService = new ClassificationService();
@@ -0,0 +1,167 @@
+import { DifficultyEstimate, DifficultySignal, DifficultySignalKey } from '../types';
+
+// Everything the estimator looks at; all of it is already on the issue or its repository
+export interface DifficultyInput {
+  title: string;
+  body?: string | null;
+  comments?: number;
+  // Kilobytes, as reported by GitHub
+  repositorySize?: number;
+  repositoryLanguage?: string;
+  // Set only when a classification rule with label or title terms decided the difficulty
+  labelDifficulty?: DifficultyEstimate['level'];
+}
+
+const SIGNAL_WEIGHTS: Record<DifficultySignalKey, number> = {
+  labels: 0.3,
+  scope: 0.1,
+  files: 0.15,
+  code: 0.1,
+  checklist: 0.1,
+  tests: 0.05,
+  repositorySize: 0.1,
+  language: 0.05,
+  discussion: 0.05,
+};
+
+// Upper score bound for each level
+const LEVEL_THRESHOLDS = { beginner: 35, intermediate: 65 };
+
+const LABEL_SCORES: Record<DifficultyEstimate['level'], number> = { beginner: 10, intermediate: 50, advanced: 90 };
+
+// Rough learning curve of a codebase in each language for someone new to it
+const LANGUAGE_SCORES: Record<string, number> = {
+  markdown: 15, html: 20, css: 25, scss: 25,
+  javascript: 40, python: 40, ruby: 40, php: 40, shell: 45,
+  typescript: 50, java: 55, go: 50, 'c#': 55, kotlin: 55, swift: 55, dart: 50,
+  c: 75, 'c++': 80, rust: 80, scala: 75, haskell: 85, elixir: 60, erlang: 70, ocaml: 80,
+};
+
+const FILE_EXTENSIONS = 'tsx?|jsx?|mjs|cjs|py|rb|go|rs|java|kt|swift|cs|cpp|cc|hpp|h|c|php|scala|ex|exs|vue|svelte|css|scss|html|md|json|ya?ml|toml|sh|sql';
+const FILE_PATH_PATTERN = new RegExp(`(?:[\\w.-]+/)*[\\w.-]+\\.(?:${FILE_EXTENSIONS})\\b`, 'gi');
+// Project names that look like file names, e.g. "Node.js"
+const NOT_FILES = /^(?:node|vue|next|nuxt|react|express|three|d3|chart|ember|backbone|alpine|solid)\.js$/i;
+const CODE_BLOCK_PATTERN = /```[\s\S]*?```/g;
+const STACK_TRACE_PATTERN = /Traceback \(most recent call last\)|^\s+at .+\(.+:\d+:\d+\)|panicked at|Exception in thread/m;
+const CHECKLIST_PATTERN = /^\s*[-*] \[[ xX]\]/gm;
+const HEADING_PATTERN = /^#{1,6} /gm;
+const TEST_PATTERN = /\b(?:unit tests?|tests?|specs?|jest|vitest|pytest|mocha|rspec|junit|test coverage)\b/i;
+
+const stepScore = (value: number, steps: Array<[number, number]>, fallback: number) =>
+  steps.find(([max]) => value <= max)?.[1] ?? fallback;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const scoreLabels = (level?: DifficultyEstimate['level']): Pick<DifficultySignal, 'score' | 'detail'> =>
+  level
+    ? { score: LABEL_SCORES[level], detail: `Labelled ${level}` }
+    : { score: null, detail: 'No difficulty labels' };
+
+const scoreScope = (body: string): Pick<DifficultySignal, 'score' | 'detail'> => {
+  const prose = body.replace(CODE_BLOCK_PATTERN, '');
+  const words = prose.split(/\s+/).filter(Boolean).length;
+  if (words === 0) return { score: null, detail: 'No description' };
+
+  const headings = prose.match(HEADING_PATTERN)?.length ?? 0;
+  return {
+    // Long write-ups with several sections usually describe larger changes
+    score: Math.min(100, stepScore(words, [[60, 25], [150, 35], [400, 50], [800, 70]], 85) + Math.min(headings, 4) * 3),
+    detail: `${plural(words, 'word')} of description` + (headings > 0 ? `, ${plural(headings, 'section')}` : ''),
+  };
+};
+
+const scoreFiles = (text: string): Pick<DifficultySignal, 'score' | 'detail'> => {
+  // Deduplicated case-insensitively, keeping the spelling first used
+  const unique = new Map<string, string>();
+  (text.match(FILE_PATH_PATTERN) ?? []).forEach(file => {
+    if (!NOT_FILES.test(file) && !unique.has(file.toLowerCase())) unique.set(file.toLowerCase(), file);
+  });
+  const files = [...unique.values()];
+  if (files.length === 0) return { score: null, detail: 'No files mentioned' };
+  return {
+    score: stepScore(files.length, [[1, 25], [3, 50], [6, 75]], 90),
+    detail: `Mentions ${plural(files.length, 'file')}: ${files.slice(0, 3).join(', ')}${files.length > 3 ? ', ...' : ''}`,
+  };
+};
+
+const scoreCode = (body: string): Pick<DifficultySignal, 'score' | 'detail'> => {
+  const blocks = body.match(CODE_BLOCK_PATTERN)?.length ?? 0;
+  if (STACK_TRACE_PATTERN.test(body)) return { score: 70, detail: 'Includes a stack trace to debug' };
+  if (blocks === 0) return { score: null, detail: 'No code blocks' };
+  return { score: stepScore(blocks, [[1, 45], [2, 55]], 65), detail: plural(blocks, 'code block') };
+};
+
+const scoreChecklist = (body: string): Pick<DifficultySignal, 'score' | 'detail'> => {
+  const items = body.match(CHECKLIST_PATTERN)?.length ?? 0;
+  if (items === 0) return { score: null, detail: 'No checklist' };
+  // A short checklist spells the work out; a long one means many separate changes
+  return { score: stepScore(items, [[3, 35], [7, 60]], 80), detail: `Checklist with ${plural(items, 'item')}` };
+};
+
+const scoreTests = (text: string): Pick<DifficultySignal, 'score' | 'detail'> =>
+  TEST_PATTERN.test(text)
+    ? { score: 65, detail: 'Mentions tests, so changes likely need test coverage' }
+    : { score: null, detail: 'No mention of tests' };
+
+const scoreRepositorySize = (size?: number): Pick<DifficultySignal, 'score' | 'detail'> => {
+  if (size === undefined) return { score: null, detail: 'Repository size unknown' };
+  const megabytes = size / 1024;
+  return {
+    score: stepScore(megabytes, [[1, 20], [10, 40], [100, 65]], 85),
+    detail: `Repository is ${megabytes < 1 ? '<1' : Math.round(megabytes).toLocaleString()} MB`,
+  };
+};
+
+const scoreLanguage = (language?: string): Pick<DifficultySignal, 'score' | 'detail'> => {
+  if (!language) return { score: null, detail: 'Language unknown' };
+  const score = LANGUAGE_SCORES[language.toLowerCase()];
+  return score === undefined
+    ? { score: null, detail: `No estimate for ${language}` }
+    : { score, detail: `Written in ${language}` };
+};
+
+const scoreDiscussion = (comments?: number): Pick<DifficultySignal, 'score' | 'detail'> => {
+  if (comments === undefined) return { score: null, detail: 'Comment count unknown' };
+  // Long threads tend to mean open questions or disagreement about the approach
+  return {
+    score: stepScore(comments, [[0, 40], [3, 35], [10, 55], [25, 70]], 85),
+    detail: comments === 0 ? 'No discussion yet' : plural(comments, 'comment'),
+  };
+};
+
+// Estimate difficulty as a weighted average of the signals the issue provides. Unmeasured
+// signals are left out and the rest rescaled. Confidence grows with the share of the weight
+// that could be measured and falls when the measured signals disagree with each other.
+export const estimateDifficulty = (input: DifficultyInput): DifficultyEstimate => {
+  const body = input.body ?? '';
+  const text = `${input.title}\n${body}`;
+  const signals: DifficultySignal[] = [
+    { key: 'labels', label: 'Labels', weight: SIGNAL_WEIGHTS.labels, ...scoreLabels(input.labelDifficulty) },
+    { key: 'scope', label: 'Description', weight: SIGNAL_WEIGHTS.scope, ...scoreScope(body) },
+    { key: 'files', label: 'Files', weight: SIGNAL_WEIGHTS.files, ...scoreFiles(text) },
+    { key: 'code', label: 'Code', weight: SIGNAL_WEIGHTS.code, ...scoreCode(body) },
+    { key: 'checklist', label: 'Checklist', weight: SIGNAL_WEIGHTS.checklist, ...scoreChecklist(body) },
+    { key: 'tests', label: 'Tests', weight: SIGNAL_WEIGHTS.tests, ...scoreTests(text) },
+    { key: 'repositorySize', label: 'Repository size', weight: SIGNAL_WEIGHTS.repositorySize, ...scoreRepositorySize(input.repositorySize) },
+    { key: 'language', label: 'Language', weight: SIGNAL_WEIGHTS.language, ...scoreLanguage(input.repositoryLanguage) },
+    { key: 'discussion', label: 'Discussion', weight: SIGNAL_WEIGHTS.discussion, ...scoreDiscussion(input.comments) },
+  ];
+
+  const measured = signals.filter(signal => signal.score !== null);
+  const totalWeight = measured.reduce((sum, signal) => sum + signal.weight, 0);
+  if (totalWeight === 0) {
+    return { level: 'intermediate', score: 50, confidence: 0, signals };
+  }
+
+  const score = measured.reduce((sum, signal) => sum + signal.score! * signal.weight, 0) / totalWeight;
+  const spread = measured.reduce((sum, signal) => sum + Math.abs(signal.score! - score) * signal.weight, 0) / totalWeight;
+  const agreement = Math.max(0, 1 - spread / 50);
+  const coverage = totalWeight / Object.values(SIGNAL_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+
+  return {
+    level: score < LEVEL_THRESHOLDS.beginner ? 'beginner' : score < LEVEL_THRESHOLDS.intermediate ? 'intermediate' : 'advanced',
+    score: Math.round(score),
+    confidence: Math.round(Math.sqrt(coverage) * agreement * 100) / 100,
+    signals,
+  };
+};
@@ -0,0 +1,324 @@
+import { githubService, GitHubIssue, RequestOptions, toClassifiableIssue, isAbortError, toGitHubError } from './github';
+import { claimService } from './claims';
+import { classificationService } from './classification';
+import { Bookmark, ClassificationRule, Digest, DigestCadence, DigestItem, DigestItemKind, NotificationPreferences } from '../types';
+
+// Enough for a couple of weeks of daily digests plus the weekly ones
+export const MAX_DIGESTS = 20;
+
+export const DIGEST_CADENCES: DigestCadence[] = ['daily', 'weekly'];
+
+export const DIGEST_SECTIONS: Record<DigestItemKind, string> = {
+  new: 'New',
+  closed: 'Closed',
+  claimed: 'Claimed',
+  bookmark: 'Bookmarked',
+};
+
+export interface DigestWindow {
+  start: Date;
+  end: Date;
+}
+
+// What a digest is gathered from
+export interface DigestSources {
+  // Monitored repository full names
+  repositories: string[];
+  bookmarks: Bookmark[];
+  // Categories the user follows; new, closed and claimed issues in none of them are left out
+  issueTypes: string[];
+  rules: ClassificationRule[];
+}
+
+export interface DigestGroup {
+  repository: string;
+  categories: Array<{ category: string; items: DigestItem[] }>;
+}
+
+// One section of a digest, with what it had to leave out
+interface DigestSection {
+  items: DigestItem[];
+  omitted?: string[];
+}
+
+const getRepositoryFullName = (issue: GitHubIssue) => issue.repository_url.split('/').slice(-2).join('/');
+
+const within = (date: string | null | undefined, window: DigestWindow) => {
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  return time >= window.start.getTime() && time < window.end.getTime();
+};
+
+// Searches keep the most recently updated matches when a group of repositories has too many
+const describeTruncation = (section: string, repositories: string[]) => (repositories.length > 0
+  ? [`some ${section} in ${repositories.join(', ')} (too many to search; only the most recently updated are listed)`]
+  : []);
+
+// The latest window that has fully passed, in local time: yesterday for daily digests and
+// last week, Monday to Monday, for weekly ones
+export const getLatestWindow = (cadence: DigestCadence, now = new Date()): DigestWindow => {
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (cadence === 'weekly') end.setDate(end.getDate() - ((end.getDay() + 6) % 7));
+  const start = new Date(end);
+  start.setDate(start.getDate() - (cadence === 'weekly' ? 7 : 1));
+  return { start, end };
+};
+
+// Cadences the user switched on whose latest window has no digest yet
+export const getDueCadences = (
+  preferences: NotificationPreferences,
+  digests: Digest[],
+  now = new Date()
+): DigestCadence[] =>
+  DIGEST_CADENCES.filter(cadence => preferences[cadence] && !digests.some(digest =>
+    digest.cadence === cadence && new Date(digest.windowEnd).getTime() >= getLatestWindow(cadence, now).end.getTime()
+  ));
+
+export const formatCategory = (category: string) => {
+  const words = category.replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// e.g. "Oct 18, 2026" for a daily digest, "Oct 12 – Oct 18, 2026" for a weekly one
+export const formatDigestWindow = (digest: Digest) => {
+  const start = new Date(digest.windowStart);
+  const last = new Date(digest.windowEnd);
+  last.setDate(last.getDate() - 1);
+  return digest.cadence === 'daily'
+    ? start.toLocaleDateString(undefined, { dateStyle: 'medium' })
+    : `${start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString(undefined, { dateStyle: 'medium' })}`;
+};
+
+export const getDigestTitle = (digest: Digest) =>
+  `${digest.cadence === 'daily' ? 'Daily' : 'Weekly'} digest: ${formatDigestWindow(digest)}`;
+
+// By repository, then category, both alphabetical; items keep their section order
+export const groupDigestItems = (items: DigestItem[]): DigestGroup[] => {
+  const repositories = new Map<string, Map<string, DigestItem[]>>();
+  for (const item of items) {
+    const categories = repositories.get(item.repository) ?? new Map<string, DigestItem[]>();
+    categories.set(item.category, [...(categories.get(item.category) ?? []), item]);
+    repositories.set(item.repository, categories);
+  }
+
+  return [...repositories.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([repository, categories]) => ({
+      repository,
+      categories: [...categories.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([category, categoryItems]) => ({ category, items: categoryItems })),
+    }));
+};
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+export const toMarkdown = (digest: Digest): string => {
+  const lines = [
+    `# ${getDigestTitle(digest)}`,
+    '',
+    `_${digest.items.length} ${digest.items.length === 1 ? 'update' : 'updates'} · generated ${new Date(digest.generatedAt).toLocaleString()}_`,
+  ];
+  digest.errors?.forEach(error => lines.push('', `> Not included: ${escapeMarkdown(error)}`));
+  if (digest.items.length === 0) lines.push('', 'Nothing happened in this window.');
+
+  for (const group of groupDigestItems(digest.items)) {
+    lines.push('', `## ${group.repository}`);
+    for (const { category, items } of group.categories) {
+      lines.push('', `### ${formatCategory(category)}`, '');
+      items.forEach(item => lines.push(
+        `- **${DIGEST_SECTIONS[item.kind]}** [${escapeMarkdown(item.title)}](${item.url})${item.detail ? ` — ${escapeMarkdown(item.detail)}` : ''}`
+      ));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => (
+  { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!
+));
+
+// A standalone page with inline styles, so it can be saved, mailed or opened offline
+export const toHtml = (digest: Digest): string => {
+  const title = escapeHtml(getDigestTitle(digest));
+  const groups = groupDigestItems(digest.items).map(group => `
+    <section>
+      <h2>${escapeHtml(group.repository)}</h2>
+      ${group.categories.map(({ category, items }) => `
+      <h3>${escapeHtml(formatCategory(category))}</h3>
+      <ul>
+        ${items.map(item => `<li><span class="kind ${item.kind}">${DIGEST_SECTIONS[item.kind]}</span> <a href="${escapeHtml(item.url)}">${escapeHtml(item.title)}</a>${item.detail ? ` <span class="detail">${escapeHtml(item.detail)}</span>` : ''}</li>`).join('\n        ')}
+      </ul>`).join('')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1e293b; }
+    h1 { font-size: 1.5rem; }
+    h2 { font-size: 1.15rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; margin-top: 2rem; }
+    h3 { font-size: 0.95rem; color: #475569; }
+    ul { padding-left: 1.25rem; }
+    li { margin: 0.35rem 0; }
+    a { color: #2563eb; }
+    .meta, .detail { color: #64748b; font-size: 0.85rem; }
+    .note { background: #fef3c7; padding: 0.5rem 0.75rem; border-radius: 0.5rem; }
+    .kind { font-size: 0.75rem; font-weight: 600; padding: 0.1rem 0.5rem; border-radius: 999px; }
+    .new { background: #dcfce7; color: #166534; }
+    .closed { background: #f1f5f9; color: #475569; }
+    .claimed { background: #fef3c7; color: #92400e; }
+    .bookmark { background: #dbeafe; color: #1e40af; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="meta">${digest.items.length} ${digest.items.length === 1 ? 'update' : 'updates'} · generated ${escapeHtml(new Date(digest.generatedAt).toLocaleString())}</p>
+  ${(digest.errors ?? []).map(error => `<p class="note">Not included: ${escapeHtml(error)}</p>`).join('\n  ')}
+  ${digest.items.length === 0 ? '<p>Nothing happened in this window.</p>' : groups}
+</body>
+</html>
+`;
+};
+
+// Gathers a digest from search at generation time, so windows the app was closed for are covered too
+class DigestService {
+  async buildDigest(
+    cadence: DigestCadence,
+    window: DigestWindow,
+    sources: DigestSources,
+    options: RequestOptions = {}
+  ): Promise<Digest> {
+    const sections: Array<[string, () => Promise<DigestSection>]> = [
+      ['new issues', () => this.getNewIssues(window, sources, options)],
+      ['closed issues', () => this.getClosedIssues(window, sources, options)],
+      ['claimed issues', () => this.getClaimedIssues(window, sources, options)],
+      ['bookmarked issues', () => this.getBookmarkActivity(window, sources, options)],
+    ];
+    // One section at a time, since each runs several searches against the same rate limit
+    const settled: PromiseSettledResult<DigestSection>[] = [];
+    for (const [, gather] of sections) {
+      try {
+        settled.push({ status: 'fulfilled', value: await gather() });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        settled.push({ status: 'rejected', reason: error });
+      }
+    }
+
+    // A failed section only fails the digest when nothing else came back
+    const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failures.length === settled.length) throw failures[0].reason;
+
+    const errors = settled.flatMap((result, index) => result.status === 'rejected'
+      ? [`${sections[index][0]} (${toGitHubError(result.reason, 'Request failed').message})`]
+      : result.value.omitted ?? []);
+
+    return {
+      id: `digest-${cadence}-${window.end.toISOString()}`,
+      cadence,
+      windowStart: window.start.toISOString(),
+      windowEnd: window.end.toISOString(),
+      generatedAt: new Date().toISOString(),
+      items: settled.flatMap(result => (result.status === 'fulfilled' ? result.value.items : [])),
+      ...(errors.length > 0 ? { errors } : {}),
+    };
+  }
+
+  private async getNewIssues(window: DigestWindow, sources: DigestSources, options: RequestOptions): Promise<DigestSection> {
+    const { items, truncated } = await githubService.searchIssuesInWindow(sources.repositories, 'created', window.start, window.end, options);
+    return {
+      items: this.toMatchingItems(items, 'new', sources, issue => `Opened by @${issue.user.login}`),
+      omitted: describeTruncation('new issues', truncated),
+    };
+  }
+
+  private async getClosedIssues(window: DigestWindow, sources: DigestSources, options: RequestOptions): Promise<DigestSection> {
+    const { items, truncated } = await githubService.searchIssuesInWindow(sources.repositories, 'closed', window.start, window.end, options);
+    return {
+      items: this.toMatchingItems(items, 'closed', sources),
+      omitted: describeTruncation('closed issues', truncated),
+    };
+  }
+
+  // An issue counts when it was assigned, linked to a pull request or claimed in a comment within
+  // the window; claims older than that were in an earlier digest
+  private async getClaimedIssues(window: DigestWindow, sources: DigestSources, options: RequestOptions): Promise<DigestSection> {
+    const { items, truncated } = await githubService.searchIssuesInWindow(sources.repositories, 'updated', window.start, window.end, options);
+    const open = items.filter(issue => issue.state === 'open');
+    const claims = await claimService.resolveClaims(open, options);
+
+    return {
+      items: this.toMatchingItems(open, 'claimed', sources, issue => {
+        const claim = claims.get(issue.id);
+        const recent = claim?.evidence.find(evidence => within(evidence.createdAt, window));
+        return recent ? recent.description : null;
+      }),
+      omitted: describeTruncation('claimed issues', truncated),
+    };
+  }
+
+  // Bookmarks are fetched by number rather than searched, so busy repositories can't push them out
+  private async getBookmarkActivity(window: DigestWindow, sources: DigestSources, options: RequestOptions): Promise<DigestSection> {
+    const settled = await Promise.allSettled(sources.bookmarks.map(bookmark =>
+      githubService.getIssue(bookmark.repository, bookmark.number, options)
+    ));
+    const abort = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected' && isAbortError(result.reason));
+    if (abort) throw abort.reason;
+
+    const omitted = settled.flatMap((result, index) => result.status === 'rejected'
+      ? [`${sources.bookmarks[index].repository}#${sources.bookmarks[index].number} (${toGitHubError(result.reason, 'Request failed').message})`]
+      : []);
+    const issues = settled.flatMap(result => (result.status === 'fulfilled' && within(result.value.updated_at, window) ? [result.value] : []));
+    if (issues.length === 0) return { items: [], omitted };
+
+    const references = issues.map(issue => ({ repository: getRepositoryFullName(issue), number: issue.number }));
+    const activity = await githubService.getIssueActivity(references, options);
+
+    return {
+      items: issues.map((issue, index) => {
+        const comments = activity.get(githubService.getIssueKey(references[index]))?.recentComments
+          .filter(comment => within(comment.created_at, window)).length ?? 0;
+        const detail = [
+          ...(issue.state === 'closed' && within(issue.closed_at, window) ? ['Closed'] : []),
+          ...(comments > 0 ? [`${comments} new ${comments === 1 ? 'comment' : 'comments'}`] : []),
+        ].join(', ');
+
+        return this.toItem(issue, 'bookmark', classificationService.classify(toClassifiableIssue(issue), sources.rules).category, detail || 'Updated');
+      }),
+      omitted,
+    };
+  }
+
+  // Issues in a category the user follows; `describe` returning null leaves the issue out
+  private toMatchingItems(
+    issues: GitHubIssue[],
+    kind: DigestItemKind,
+    sources: DigestSources,
+    describe: (issue: GitHubIssue) => string | null | undefined = () => undefined
+  ): DigestItem[] {
+    return issues.flatMap(issue => {
+      const { categories } = classificationService.classify(toClassifiableIssue(issue), sources.rules);
+      const category = categories.find(candidate => sources.issueTypes.includes(candidate));
+      const detail = describe(issue);
+      return category && detail !== null ? [this.toItem(issue, kind, category, detail)] : [];
+    });
+  }
+
+  private toItem(issue: GitHubIssue, kind: DigestItemKind, category: string, detail?: string): DigestItem {
+    return {
+      kind,
+      issueId: issue.id,
+      title: issue.title,
+      url: issue.html_url,
+      repository: getRepositoryFullName(issue),
+      category,
+      ...(detail ? { detail } : {}),
+    };
+  }
+}
+
+export const digestService = new DigestService();
@@ -0,0 +1,125 @@
+export interface GitHubErrorDetails {
+  status?: number;
+  requestId?: string;
+  documentationUrl?: string;
+}
+
+// Base class for everything the GitHub service throws
+export class GitHubError extends Error {
+  status?: number;
+  requestId?: string;
+  documentationUrl?: string;
+
+  constructor(message: string, details: GitHubErrorDetails = {}) {
+    super(message);
+    this.name = 'GitHubError';
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.documentationUrl = details.documentationUrl;
+  }
+}
+
+// 401: missing, expired or revoked token
+export class AuthError extends GitHubError {
+  constructor(message: string, details: GitHubErrorDetails = {}) {
+    super(message, details);
+    this.name = 'AuthError';
+  }
+}
+
+// Primary or secondary rate limit hit and not worth waiting for
+export class RateLimitError extends GitHubError {
+  resetAt: Date;
+  resource?: string;
+
+  constructor(message: string, resetAt: Date, details: GitHubErrorDetails & { resource?: string } = {}) {
+    super(message, details);
+    this.name = 'RateLimitError';
+    this.resetAt = resetAt;
+    this.resource = details.resource;
+  }
+}
+
+// 404/410: the repository or issue was removed, renamed or made private
+export class NotFoundError extends GitHubError {
+  constructor(message: string, details: GitHubErrorDetails = {}) {
+    super(message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 422: GitHub rejected the request, e.g. an invalid search query
+export class ValidationError extends GitHubError {
+  errors: Array<{ resource?: string; field?: string; code?: string; message?: string }>;
+
+  constructor(message: string, errors: ValidationError['errors'] = [], details: GitHubErrorDetails = {}) {
+    super(message, details);
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+// The request never got a response (offline, DNS, CORS, ...)
+export class NetworkError extends GitHubError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+interface ErrorBody {
+  message?: string;
+  documentation_url?: string;
+  errors?: ValidationError['errors'];
+}
+
+// Map a failed response (and its parsed body) onto the matching error class
+export const createGitHubError = (response: Response, body: ErrorBody): GitHubError => {
+  const details: GitHubErrorDetails = {
+    status: response.status,
+    requestId: response.headers.get('X-GitHub-Request-Id') ?? undefined,
+    documentationUrl: body.documentation_url,
+  };
+  const message = body.message || `HTTP ${response.status}`;
+
+  switch (response.status) {
+    case 401:
+      return new AuthError(message, details);
+    case 404:
+    case 410:
+      return new NotFoundError(message, details);
+    case 422:
+      return new ValidationError(message, body.errors, details);
+  }
+
+  if (response.status === 403 || response.status === 429) {
+    const retryAfter = response.headers.get('Retry-After');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    const limitExhausted = response.headers.get('X-RateLimit-Remaining') === '0';
+
+    if (retryAfter || limitExhausted || response.status === 429 || /rate limit|abuse/i.test(message)) {
+      const resetAt = retryAfter
+        ? new Date(Date.now() + Number(retryAfter) * 1000)
+        : reset
+          ? new Date(Number(reset) * 1000)
+          : new Date(Date.now() + 60 * 1000);
+      return new RateLimitError(message, resetAt, {
+        ...details,
+        resource: response.headers.get('X-RateLimit-Resource') ?? undefined,
+      });
+    }
+  }
+
+  return new GitHubError(message, details);
+};
+
+// Aborted requests are expected when a newer request supersedes them, so callers ignore them
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Normalise anything caught in a hook into a GitHubError
+export const toGitHubError = (error: unknown, fallbackMessage: string): GitHubError => {
+  if (error instanceof GitHubError) return error;
+  if (error instanceof Error) return new GitHubError(error.message || fallbackMessage);
+  return new GitHubError(fallbackMessage);
+};
@@ -0,0 +1,53 @@
+import { RepositoryHealth, SearchExclusions } from '../types';
+
+export const DEFAULT_EXCLUSIONS: SearchExclusions = {
+  repositories: [],
+  organizations: [],
+  archived: false,
+  forks: false,
+  cla: false,
+};
+
+// GitHub rejects overly long queries, so only this many hidden repositories and owners go
+// into the query itself; the rest are filtered out of the results
+export const MAX_EXCLUSION_QUALIFIERS = 10;
+
+const includesName = (names: string[], name: string) =>
+  names.some(candidate => candidate.toLowerCase() === name.toLowerCase());
+
+// Whether Discover should hide a repository. Archived and fork status come from the
+// repository's health or search result and CLA status from its contributing guide; without
+// them only names are checked.
+export const isRepositoryExcluded = (
+  fullName: string,
+  exclusions: SearchExclusions,
+  traits?: Partial<Pick<RepositoryHealth, 'archived' | 'fork'>> & { requiresCla?: boolean }
+): boolean => {
+  const [owner] = fullName.split('/');
+  if (includesName(exclusions.repositories, fullName) || includesName(exclusions.organizations, owner)) return true;
+  if (!traits) return false;
+  return (exclusions.archived && Boolean(traits.archived))
+    || (exclusions.forks && Boolean(traits.fork))
+    || (exclusions.cla && traits.requiresCla === true);
+};
+
+// True when the exclusions need each repository's health to be applied; the CLA exclusion
+// has its own lookup
+export const needsRepositoryTraits = (exclusions: SearchExclusions) =>
+  exclusions.archived || exclusions.forks;
+
+export const addExclusion = (
+  exclusions: SearchExclusions,
+  kind: 'repositories' | 'organizations',
+  name: string
+): SearchExclusions =>
+  includesName(exclusions[kind], name) ? exclusions : { ...exclusions, [kind]: [...exclusions[kind], name] };
+
+export const removeExclusion = (
+  exclusions: SearchExclusions,
+  kind: 'repositories' | 'organizations',
+  name: string
+): SearchExclusions => ({
+  ...exclusions,
+  [kind]: exclusions[kind].filter(candidate => candidate.toLowerCase() !== name.toLowerCase()),
+});
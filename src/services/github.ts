@@ -1,3 +1,15 @@
+import { MAX_HOLD_MS, RateLimitTracker, sleep } from './rateLimit';
+import { HttpCache } from './httpCache';
+import { GITHUB_SEARCH_LIMITS, SearchQuery } from './searchQuery';
+import { rankingEngine, RankingInput } from './ranking';
+import { classificationService, ClassifiableIssue } from './classification';
+import { estimateDifficulty, DifficultyInput } from './difficulty';
+import { MAX_EXCLUSION_QUALIFIERS, isRepositoryExcluded } from './exclusions';
+import { SearchExclusions } from '../types';
+import { GitHubError, NetworkError, RateLimitError, createGitHubError, isAbortError, toGitHubError } from './errors';
+
+export * from './errors';
+
 export interface GitHubUser {
   login: string;
   id: number;
@@ -23,6 +35,34 @@ export interface GitHubRepository {
   };
   topics?: string[];
   has_issues: boolean;
+  archived?: boolean;
+  pushed_at?: string;
+  // Kilobytes
+  size?: number;
+  fork?: boolean;
+}
+
+export interface CommunityFiles {
+  readme: boolean;
+  contributing: boolean;
+  codeOfConduct: boolean;
+  issueTemplate: boolean;
+  pullRequestTemplate: boolean;
+  license: boolean;
+}
+
+// Raw maintenance data for one repository; services/health.ts turns it into a score
+export interface RepositoryHealthSample {
+  repository: string;
+  archived: boolean;
+  fork: boolean;
+  pushedAt: string | null;
+  // Recently opened issues and when someone with write access first commented
+  issues: Array<{ createdAt: string; firstMaintainerReplyAt: string | null }>;
+  // Recently closed pull requests, merged or not
+  pullRequests: Array<{ createdAt: string; mergedAt: string | null; closedAt: string | null }>;
+  // Null when the community profile could not be read (e.g. private repositories over REST)
+  communityFiles: CommunityFiles | null;
 }
 
 export interface GitHubIssue {
@@ -33,6 +73,8 @@ export interface GitHubIssue {
   state: 'open' | 'closed';
   created_at: string;
   updated_at: string;
+  // Set by REST and search responses
+  closed_at?: string | null;
   labels: Array<{
     name: string;
     color: string;
@@ -45,11 +87,443 @@ export interface GitHubIssue {
   html_url: string;
   comments: number;
   assignee: any;
+  assignees?: Array<{
+    login: string;
+    avatar_url: string;
+  }>;
+  // Only populated by the GraphQL batch fetch, which can read timeline cross-references
+  linked_pull_requests?: LinkedPullRequest[];
+  // Latest comments, oldest first; also only populated by the GraphQL batch fetch
+  recent_comments?: IssueComment[];
+  // When each current assignee was last assigned, by login; also only from the GraphQL batch fetch
+  assigned_at?: Record<string, string>;
+  reactions?: {
+    total_count: number;
+  };
+  // Only set by the "recent issues from starred repos" search
+  repository_stars?: number;
+  // Present when the /issues endpoint returns a pull request
+  pull_request?: {
+    url: string;
+    html_url: string;
+    merged_at?: string | null;
+  };
+}
+
+export interface GitHubLabel {
+  name: string;
+  color: string;
+  description?: string | null;
+}
+
+export interface IssueComment {
+  body: string;
+  created_at: string;
+  html_url: string;
+  user: {
+    login: string;
+  } | null;
+}
+
+// Timeline and comment activity used to tell whether someone is already working on an issue
+export interface IssueActivity {
+  linkedPullRequests: LinkedPullRequest[];
+  recentComments: IssueComment[];
+  // When each assignee was last assigned, by login
+  assignedAt: Record<string, string>;
+}
+
+export interface IssueReference {
+  repository: string;
+  number: number;
+}
+
+export interface GitHubPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  draft: boolean;
+  merged_at: string | null;
+  created_at: string;
+  updated_at: string;
+  html_url: string;
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  labels: Array<{
+    name: string;
+    color: string;
+  }>;
+  // The fields below are only populated by the GraphQL batch fetch
+  comments?: number;
+  review_decision?: 'approved' | 'changes_requested' | 'review_required';
+  closing_issue_numbers?: number[];
+}
+
+export interface LinkedPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  state: 'open' | 'closed' | 'merged';
+  repository: string;
+  // When the pull request was linked to the issue
+  linked_at?: string;
+}
+
+export interface RepositoryIssuesResult {
+  repository: string;
+  issues: GitHubIssue[];
+  error?: GitHubError;
+  // More open issues than one fetch returns; only the most recently updated are included
+  truncated?: boolean;
+}
+
+export interface RepositoryPullRequestsResult {
+  repository: string;
+  pullRequests: GitHubPullRequest[];
+  error?: GitHubError;
+}
+
+export interface IssueListOptions extends PaginationOptions {
+  // The /issues endpoint also returns pull requests; they are dropped unless asked for
+  includePullRequests?: boolean;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface PaginationOptions extends RequestOptions {
+  maxPages?: number;
+  maxItems?: number;
+}
+
+export interface SearchPageOptions extends RequestOptions {
+  page?: number;
+  perPage?: number;
+}
+
+// One page of search results plus what GitHub reported about the full result set
+export interface SearchPage<T> {
+  items: T[];
+  totalCount: number;
+  // The search was split into queries whose matches can overlap, so totalCount is an upper bound
+  approximateTotal: boolean;
+  // GitHub timed out before finding every match, so totalCount may be too low
+  incompleteResults: boolean;
+  page: number;
+  hasMore: boolean;
+  // One entry per query the search was split into, so partial failures stay visible
+  queries: SearchQueryReport[];
+}
+
+export interface SearchQueryReport {
+  query: string;
+  totalCount: number;
+  // Items this query returned before results were merged and de-duplicated
+  itemCount: number;
+  error?: GitHubError;
+}
+
+export interface WindowSearchResult {
+  items: GitHubIssue[];
+  // Repositories searched in a group that had more matches than the cap
+  truncated: string[];
+}
+
+interface PaginateOptions<T, P> extends PaginationOptions {
+  // Extracts the items from a page body, e.g. `items` for search responses
+  select?: (page: P) => T[];
+}
+
+interface SearchResponse<T> {
+  total_count: number;
+  incomplete_results: boolean;
+  items: T[];
+}
+
+const DEFAULT_API_URL = 'https://api.github.com';
+const API_URL_STORAGE_KEY = 'github_api_url';
+
+const MAX_PER_PAGE = 100;
+const DEFAULT_MAX_PAGES = 10;
+const SEARCH_RESULT_LIMIT = 1000;
+const SEARCH_PAGE_SIZE = 50;
+// Per group of repositories in a windowed search
+const WINDOW_SEARCH_MAX_ITEMS = 300;
+// The "recent issues from starred repos" sort only looks at recency and popularity
+const HYBRID_RANKING_WEIGHTS = { recency: 6, stars: 4, health: 0, comments: 0, reactions: 0, labels: 0, language: 0 };
+const MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 1000;
+// Repositories per aliased GraphQL query; keeps each query well under GitHub's node limits
+const GRAPHQL_BATCH_SIZE = 10;
+const RECENT_COMMENT_COUNT = 10;
+const HEALTH_SAMPLE_SIZE = 20;
+// Contributing guides that ask for a signed Contributor License Agreement, unless the sentence
+// says one isn't needed, e.g. "No CLA is required"
+const CLA_PATTERN = /\bCLA\b|contributor license agreement/i;
+const NO_CLA_PATTERN = new RegExp([
+  '\\b(?:no|without(?: signing)?(?: an?| any)?)\\s+(?:CLA|contributor license agreement)\\b',
+  '\\b(?:does not|doesn\'t|do not|don\'t|will not|won\'t|never)\\s+(?:need|require|ask)\\s+(?:you\\s+)?(?:to sign\\s+|for\\s+)?(?:an?\\s+|any\\s+)?(?:CLA|contributor license agreement)\\b',
+  '\\b(?:CLA|contributor license agreement)\\s+(?:is|are)\\s+(?:not|never)\\s+(?:required|needed|necessary)\\b',
+].join('|'), 'i');
+const requiresCla = (text: string) =>
+  text.split(/[.!?\n]/).some(sentence => CLA_PATTERN.test(sentence) && !NO_CLA_PATTERN.test(sentence));
+// Any README GitHub would show, e.g. README.md, readme.rst or a bare README, matching the
+// REST community profile
+const README_PATTERN = /^readme(?:\.[\w.-]+)?$/i;
+// Comment author associations that mean the commenter can triage the repository
+const MAINTAINER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+// Result fields behind each search `sort`, for ordering the merged parts of a split query
+const SEARCH_SORT_FIELDS: Record<string, string> = {
+  stars: 'stargazers_count',
+  forks: 'forks_count',
+  updated: 'updated_at',
+  created: 'created_at',
+  comments: 'comments',
+};
+
+// Null for best match and other sorts the results can't be ordered by locally
+const getSearchSortComparator = (sort: Record<string, string>) => {
+  const field = SEARCH_SORT_FIELDS[sort.sort];
+  if (!field) return null;
+  const direction = sort.order === 'asc' ? 1 : -1;
+  return (a: object, b: object) => {
+    const x = (a as Record<string, unknown>)[field] as number | string;
+    const y = (b as Record<string, unknown>)[field] as number | string;
+    return (x < y ? -1 : x > y ? 1 : 0) * direction;
+  };
+};
+
+const GRAPHQL_PULL_REQUEST_FIELDS = `
+  ... on PullRequest {
+    number
+    title
+    url
+    state
+    repository { nameWithOwner }
+  }
+`;
+
+const GRAPHQL_ISSUE_ACTIVITY_FIELDS = `
+  comments(last: ${RECENT_COMMENT_COUNT}) {
+    totalCount
+    nodes { body createdAt url author { login } }
+  }
+  timelineItems(first: 20, itemTypes: [CROSS_REFERENCED_EVENT, CONNECTED_EVENT]) {
+    nodes {
+      ... on CrossReferencedEvent { createdAt source { ${GRAPHQL_PULL_REQUEST_FIELDS} } }
+      ... on ConnectedEvent { createdAt subject { ${GRAPHQL_PULL_REQUEST_FIELDS} } }
+    }
+  }
+  assignments: timelineItems(last: 10, itemTypes: [ASSIGNED_EVENT]) {
+    nodes { ... on AssignedEvent { createdAt assignee { ... on Actor { login } } } }
+  }
+`;
+
+const GRAPHQL_ISSUE_FIELDS = `
+  nodes {
+    databaseId
+    number
+    title
+    body
+    state
+    createdAt
+    updatedAt
+    url
+    author { login avatarUrl }
+    reactions { totalCount }
+    labels(first: 20) { nodes { name color } }
+    assignees(first: 10) { nodes { login avatarUrl } }
+    ${GRAPHQL_ISSUE_ACTIVITY_FIELDS}
+  }
+  pageInfo { hasNextPage endCursor }
+`;
+
+const GRAPHQL_REPOSITORY_HEALTH_FIELDS = `
+  isArchived
+  isFork
+  pushedAt
+  codeOfConduct { key }
+  licenseInfo { key }
+  issueTemplates { name }
+  pullRequestTemplates { filename }
+  rootFiles: object(expression: "HEAD:") { ... on Tree { entries { name } } }
+  githubFiles: object(expression: "HEAD:.github") { ... on Tree { entries { name } } }
+  docsFiles: object(expression: "HEAD:docs") { ... on Tree { entries { name } } }
+  contributing: object(expression: "HEAD:CONTRIBUTING.md") { id }
+  githubContributing: object(expression: "HEAD:.github/CONTRIBUTING.md") { id }
+  docsContributing: object(expression: "HEAD:docs/CONTRIBUTING.md") { id }
+  issues(first: ${HEALTH_SAMPLE_SIZE}, orderBy: { field: CREATED_AT, direction: DESC }) {
+    nodes {
+      createdAt
+      author { login }
+      comments(first: 10) { nodes { createdAt authorAssociation author { login } } }
+    }
+  }
+  pullRequests(first: ${HEALTH_SAMPLE_SIZE}, states: [MERGED, CLOSED], orderBy: { field: UPDATED_AT, direction: DESC }) {
+    nodes { createdAt mergedAt closedAt }
+  }
+`;
+
+const GRAPHQL_CLA_FIELDS = `
+  contributing: object(expression: "HEAD:CONTRIBUTING.md") { ... on Blob { text } }
+  githubContributing: object(expression: "HEAD:.github/CONTRIBUTING.md") { ... on Blob { text } }
+  docsContributing: object(expression: "HEAD:docs/CONTRIBUTING.md") { ... on Blob { text } }
+  claBot: object(expression: "HEAD:.clabot") { id }
+`;
+
+const GRAPHQL_PULL_REQUEST_LIST_FIELDS = `
+  nodes {
+    databaseId
+    number
+    title
+    state
+    isDraft
+    mergedAt
+    createdAt
+    updatedAt
+    url
+    author { login avatarUrl }
+    labels(first: 20) { nodes { name color } }
+    comments { totalCount }
+    reviewDecision
+    closingIssuesReferences(first: 10) { nodes { number } }
+  }
+  pageInfo { hasNextPage endCursor }
+`;
+
+interface GraphQLResponse<T> {
+  data: T | null;
+  errors?: Array<{ message: string; type?: string; path?: string[] }>;
+}
+
+interface GraphQLPullRequest {
+  number?: number;
+  title: string;
+  url: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  repository: { nameWithOwner: string };
+}
+
+interface GraphQLIssue extends GraphQLIssueActivity {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string;
+  state: 'OPEN' | 'CLOSED';
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  author: { login: string; avatarUrl: string } | null;
+  reactions: { totalCount: number };
+  labels: { nodes: Array<{ name: string; color: string }> };
+  assignees: { nodes: Array<{ login: string; avatarUrl: string }> };
+}
+
+interface GraphQLIssueActivity {
+  comments: {
+    totalCount: number;
+    nodes: Array<{ body: string; createdAt: string; url: string; author: { login: string } | null }>;
+  };
+  timelineItems: {
+    nodes: Array<{ createdAt?: string; source?: GraphQLPullRequest; subject?: GraphQLPullRequest }>;
+  };
+  assignments: {
+    nodes: Array<{ createdAt?: string; assignee?: { login?: string } | null }>;
+  };
+}
+
+interface GraphQLClaFiles {
+  contributing: { text: string | null } | null;
+  githubContributing: { text: string | null } | null;
+  docsContributing: { text: string | null } | null;
+  claBot: { id: string } | null;
+}
+
+interface GraphQLRepositoryHealth {
+  isArchived: boolean;
+  isFork: boolean;
+  pushedAt: string | null;
+  codeOfConduct: { key: string } | null;
+  licenseInfo: { key: string } | null;
+  issueTemplates: Array<{ name: string }> | null;
+  pullRequestTemplates: Array<{ filename: string }> | null;
+  rootFiles: { entries?: Array<{ name: string }> } | null;
+  githubFiles: { entries?: Array<{ name: string }> } | null;
+  docsFiles: { entries?: Array<{ name: string }> } | null;
+  contributing: { id: string } | null;
+  githubContributing: { id: string } | null;
+  docsContributing: { id: string } | null;
+  issues: {
+    nodes: Array<{
+      createdAt: string;
+      author: { login: string } | null;
+      comments: { nodes: Array<{ createdAt: string; authorAssociation: string; author: { login: string } | null }> };
+    }>;
+  };
+  pullRequests: { nodes: Array<{ createdAt: string; mergedAt: string | null; closedAt: string | null }> };
+}
+
+interface RestCommunityProfile {
+  files: Record<'readme' | 'contributing' | 'code_of_conduct' | 'issue_template' | 'pull_request_template' | 'license', unknown>;
+}
+
+interface RestIssueComment {
+  issue_url: string;
+  created_at: string;
+  author_association: string;
+  user: { login: string } | null;
+}
+
+interface RestTimelineEvent {
+  event: string;
+  created_at?: string;
+  // Set on assigned events
+  assignee?: { login: string } | null;
+  source?: {
+    issue?: GitHubIssue & { repository?: { full_name: string } };
+  };
+}
+
+interface GraphQLPullRequestNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  isDraft: boolean;
+  mergedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  author: { login: string; avatarUrl: string } | null;
+  labels: { nodes: Array<{ name: string; color: string }> };
+  comments: { totalCount: number };
+  reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  closingIssuesReferences: { nodes: Array<{ number: number }> };
+}
+
+interface GraphQLConnection<N> {
+  nodes: N[];
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+}
+
+// Describes one paginated connection to read from each aliased repository
+interface GraphQLConnectionSpec<N, R> {
+  connection: (afterVariable: string) => string;
+  fields: string;
+  map: (node: N, fullName: string) => R;
 }
 
 class GitHubService {
-  private baseUrl = 'https://api.github.com';
+  private baseUrl = this.loadApiUrl();
   private token: string | null = null;
+  private graphqlUrl = this.loadGraphqlUrl();
+  private rateLimiter = new RateLimitTracker();
+  private httpCache = new HttpCache();
 
   // Beginner-friendly labels to look for
   private beginnerLabels = [
@@ -74,63 +548,87 @@ class GitHubService {
     'junior-job'
   ];
 
-  // Popular beginner-friendly repositories
-  private beginnerRepos = [
-    'freeCodeCamp/freeCodeCamp',
-    'microsoft/vscode',
-    'facebook/react',
-    'vuejs/vue',
-    'angular/angular',
-    'nodejs/node',
-    'tensorflow/tensorflow',
-    'kubernetes/kubernetes',
-    'elastic/elasticsearch',
-    'atom/atom',
-    'rails/rails',
-    'django/django',
-    'laravel/laravel',
-    'symfony/symfony',
-    'spring-projects/spring-boot',
-    'apache/kafka',
-    'mozilla/pdf.js',
-    'gatsbyjs/gatsby',
-    'nuxt/nuxt.js',
-    'nestjs/nest',
-    'expressjs/express',
-    'socketio/socket.io',
-    'lodash/lodash',
-    'moment/moment',
-    'chartjs/Chart.js',
-    'prettier/prettier',
-    'eslint/eslint',
-    'webpack/webpack',
-    'babel/babel',
-    'storybookjs/storybook',
-    'jestjs/jest',
-    'cypress-io/cypress',
-    'puppeteer/puppeteer',
-    'microsoft/TypeScript',
-    'golang/go',
-    'rust-lang/rust',
-    'python/cpython',
-    'openjdk/jdk',
-    'dotnet/core',
-    'flutter/flutter',
-    'ionic-team/ionic-framework',
-    'apache/spark',
-    'pandas-dev/pandas',
-    'numpy/numpy',
-    'scikit-learn/scikit-learn',
-    'jupyter/notebook',
-    'home-assistant/core',
-    'ansible/ansible',
-    'docker/docker-ce',
-    'grafana/grafana',
-    'prometheus/prometheus',
-    'hashicorp/terraform'
-  ];
+  // API root precedence: host picked at login, then VITE_GITHUB_API_URL, then github.com
+  private loadApiUrl(): string {
+    return localStorage.getItem(API_URL_STORAGE_KEY)
+      || import.meta.env.VITE_GITHUB_API_URL?.replace(/\/+$/, '')
+      || DEFAULT_API_URL;
+  }
+
+  private loadGraphqlUrl(): string {
+    // An explicit GraphQL root only applies to the build-time API root it was configured with
+    const envGraphqlUrl = import.meta.env.VITE_GITHUB_GRAPHQL_URL;
+    if (envGraphqlUrl && !localStorage.getItem(API_URL_STORAGE_KEY)) {
+      return envGraphqlUrl;
+    }
+    return this.deriveGraphqlUrl(this.baseUrl);
+  }
+
+  // Switch to another GitHub host (github.com or a GitHub Enterprise Server instance)
+  setApiUrl(hostOrUrl: string) {
+    const apiUrl = this.normalizeApiUrl(hostOrUrl);
+    if (apiUrl === DEFAULT_API_URL) {
+      localStorage.removeItem(API_URL_STORAGE_KEY);
+    } else {
+      localStorage.setItem(API_URL_STORAGE_KEY, apiUrl);
+    }
+    this.baseUrl = apiUrl;
+    this.graphqlUrl = this.loadGraphqlUrl();
+  }
+
+  getApiUrl(): string {
+    return this.baseUrl;
+  }
+
+  isEnterprise(): boolean {
+    return this.baseUrl !== DEFAULT_API_URL;
+  }
+
+  // Accepts "ghe.example.com", "https://ghe.example.com" or a full ".../api/v3" API root
+  normalizeApiUrl(hostOrUrl: string): string {
+    const trimmed = hostOrUrl.trim().replace(/\/+$/, '');
+    if (!trimmed) return DEFAULT_API_URL;
+
+    const url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (url.hostname === 'github.com' || url.hostname === 'api.github.com') {
+      return DEFAULT_API_URL;
+    }
+
+    // GHE.com data-residency tenants use an api. subdomain, GHES serves the API under /api/v3
+    if (url.hostname.startsWith('api.') || url.pathname.startsWith('/api/')) {
+      return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+    }
+    return `${url.origin}/api/v3`;
+  }
+
+  private deriveGraphqlUrl(apiUrl: string): string {
+    if (apiUrl.endsWith('/api/v3')) {
+      return apiUrl.replace(/\/api\/v3$/, '/api/graphql');
+    }
+    return `${apiUrl}/graphql`;
+  }
+
+  // Web UI root for an API root, used for OAuth, token and repository links
+  getWebUrl(apiUrl: string = this.baseUrl): string {
+    if (apiUrl === DEFAULT_API_URL) return 'https://github.com';
+
+    const url = new URL(apiUrl);
+    return `${url.protocol}//${url.hostname.replace(/^api\./, '')}${url.port ? `:${url.port}` : ''}`;
+  }
+
+  getTokenCreationUrl(apiUrl: string = this.baseUrl): string {
+    return `${this.getWebUrl(apiUrl)}/settings/tokens/new?scopes=repo,user:email&description=GitEasy`;
+  }
+
+  getRepositoryWebUrl(fullName: string): string {
+    return `${this.getWebUrl()}/${fullName}`;
+  }
 
   setToken(token: string) {
+    // Cached responses belong to whoever was signed in before
+    if (this.getToken() !== token) {
+      this.httpCache.clear();
+    }
     this.token = token;
     localStorage.setItem('github_token', token);
   }
@@ -145,9 +643,16 @@ class GitHubService {
   clearToken() {
     this.token = null;
     localStorage.removeItem('github_token');
+    this.httpCache.clear();
   }
 
   private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const { data } = await this.sendRequest<T>(endpoint, options);
+    return data;
+  }
+
+  // Performs the request and returns the parsed body together with the response headers
+  private async sendRequest<T>(endpoint: string, options: RequestInit = {}): Promise<{ data: T; headers: Headers }> {
     const token = this.getToken();
     const headers: HeadersInit = {
       'Accept': 'application/vnd.github.v3+json',
@@ -159,60 +664,977 @@ class GitHubService {
       headers['Authorization'] = `token ${token}`;
     }
 
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      ...options,
-      headers,
-    });
+    // Pagination links from the Link header are already absolute
+    const url = endpoint.startsWith('http') ? endpoint : `${this.baseUrl}${endpoint}`;
+    const resource = this.rateLimiter.getResourceForEndpoint(url);
+
+    // Conditional GETs: a 304 is served from the cache and does not count against the rate limit
+    const cacheable = !options.method || options.method.toUpperCase() === 'GET';
+    const cached = cacheable ? await this.httpCache.get(url) : undefined;
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const { signal } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.waitForCapacity(resource, signal ?? undefined);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...options,
+          headers,
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        // Network failures are usually transient, so give them the same backoff as 5xx responses
+        if (attempt < MAX_RETRIES) {
+          await sleep(this.getBackoffDelay(attempt), signal ?? undefined);
+          continue;
+        }
+        throw new NetworkError(error instanceof Error ? `Could not reach GitHub: ${error.message}` : 'Could not reach GitHub');
+      }
+
+      this.rateLimiter.update(response.headers, resource);
+
+      if (response.status === 304 && cached) {
+        // Still current, so keep it from aging out of the cache
+        this.httpCache.set({ ...cached, storedAt: Date.now() });
+        const cachedHeaders = new Headers(response.headers);
+        if (cached.link && !cachedHeaders.has('Link')) {
+          cachedHeaders.set('Link', cached.link);
+        }
+        return { data: cached.data as T, headers: cachedHeaders };
+      }
+
+      if (response.ok) {
+        const data = await response.json();
+        const etag = response.headers.get('ETag');
+        const lastModified = response.headers.get('Last-Modified');
+        if (cacheable && (etag || lastModified)) {
+          this.httpCache.set({
+            url,
+            etag: etag ?? undefined,
+            lastModified: lastModified ?? undefined,
+            link: response.headers.get('Link') ?? undefined,
+            data,
+            storedAt: Date.now(),
+          });
+        }
+        return { data, headers: response.headers };
+      }
 
-    if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-      throw new Error(error.message || `HTTP ${response.status}`);
+      const retryDelay = this.getRetryDelay(response, error.message, attempt);
+      if (retryDelay !== null && attempt < MAX_RETRIES) {
+        await sleep(retryDelay, signal ?? undefined);
+        continue;
+      }
+
+      throw createGitHubError(response, error);
     }
+  }
+
+  // How long to wait before retrying a failed response, or null if it should not be retried
+  private getRetryDelay(response: Response, message: string | undefined, attempt: number): number | null {
+    const { status, headers } = response;
+
+    if (status === 403 || status === 429) {
+      const retryAfter = headers.get('Retry-After');
+      if (retryAfter) {
+        const delay = Number(retryAfter) * 1000;
+        return delay <= MAX_HOLD_MS ? delay : null;
+      }
+
+      // Primary limit exhausted: wait for the reset if it is close enough
+      if (headers.get('X-RateLimit-Remaining') === '0') {
+        const delay = Number(headers.get('X-RateLimit-Reset')) * 1000 - Date.now();
+        return delay <= MAX_HOLD_MS ? Math.max(delay, 0) : null;
+      }
+
+      // Secondary (abuse) limits come back as a 403 with an explanatory message only
+      if (status === 429 || /secondary rate limit|abuse/i.test(message || '')) {
+        return this.getBackoffDelay(attempt);
+      }
+
+      return null;
+    }
+
+    if (status >= 500) {
+      return this.getBackoffDelay(attempt);
+    }
+
+    return null;
+  }
+
+  private getBackoffDelay(attempt: number): number {
+    return BACKOFF_BASE_MS * 2 ** attempt + Math.random() * BACKOFF_BASE_MS;
+  }
+
+  getRateLimitTracker(): RateLimitTracker {
+    return this.rateLimiter;
+  }
+
+  // Extract the URL for a relation (e.g. rel="next") from a Link header, if any
+  private getLinkUrl(linkHeader: string | null, rel: 'next' | 'prev' | 'last'): string | null {
+    if (!linkHeader) return null;
+
+    for (const part of linkHeader.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+      if (match && match[2].split(' ').includes(rel)) {
+        return match[1];
+      }
+    }
+    return null;
+  }
+
+  // Follow Link-header pagination, yielding one page of items at a time
+  async *paginate<T, P = T[]>(endpoint: string, options: PaginateOptions<T, P> = {}): AsyncGenerator<T[], void, undefined> {
+    const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    const maxItems = options.maxItems ?? Infinity;
+    const select = options.select ?? ((page: P) => page as unknown as T[]);
+
+    let url: string | null = endpoint;
+    let pageCount = 0;
+    let itemCount = 0;
+
+    while (url && pageCount < maxPages && itemCount < maxItems) {
+      const { data, headers } = await this.sendRequest<P>(url, { signal: options.signal });
+      const items = select(data).slice(0, maxItems - itemCount);
+
+      pageCount++;
+      itemCount += items.length;
+      if (items.length === 0) return;
+
+      yield items;
+      url = this.getLinkUrl(headers.get('Link'), 'next');
+    }
+  }
+
+  // The last `count` items of a list that pages oldest first: jump to the last page, and
+  // step back a page when that one holds fewer than `count`
+  private async getLatestItems<T>(endpoint: string, count: number, options: RequestOptions = {}): Promise<T[]> {
+    const first = await this.sendRequest<T[]>(endpoint, { signal: options.signal });
+    const lastUrl = this.getLinkUrl(first.headers.get('Link'), 'last');
+    if (!lastUrl) return first.data.slice(-count);
+
+    const last = await this.sendRequest<T[]>(lastUrl, { signal: options.signal });
+    const previousUrl = this.getLinkUrl(last.headers.get('Link'), 'prev');
+    if (last.data.length >= count || !previousUrl) return last.data.slice(-count);
 
-    return response.json();
+    // With only two pages the one before the last is the first, which is already here
+    const previous = new URL(previousUrl).searchParams.get('page') === '1'
+      ? first.data
+      : (await this.sendRequest<T[]>(previousUrl, { signal: options.signal })).data;
+    return [...previous, ...last.data].slice(-count);
   }
 
-  async getCurrentUser(): Promise<GitHubUser> {
-    return this.makeRequest<GitHubUser>('/user');
+  // Collect every page up to the configured caps
+  async paginateAll<T, P = T[]>(endpoint: string, options: PaginateOptions<T, P> = {}): Promise<T[]> {
+    const results: T[] = [];
+    for await (const items of this.paginate<T, P>(endpoint, options)) {
+      results.push(...items);
+    }
+    return results;
+  }
+
+  async getCurrentUser(options: RequestOptions = {}): Promise<GitHubUser> {
+    return this.makeRequest<GitHubUser>('/user', options);
   }
 
-  async getUserRepositories(username?: string): Promise<GitHubRepository[]> {
+  async getUserRepositories(username?: string, pagination: PaginationOptions = {}): Promise<GitHubRepository[]> {
+    return this.paginateAll<GitHubRepository>(this.getUserRepositoriesEndpoint(username), pagination);
+  }
+
+  iterateUserRepositories(username?: string, pagination: PaginationOptions = {}): AsyncGenerator<GitHubRepository[]> {
+    return this.paginate<GitHubRepository>(this.getUserRepositoriesEndpoint(username), pagination);
+  }
+
+  private getUserRepositoriesEndpoint(username?: string): string {
     const endpoint = username ? `/users/${username}/repos` : '/user/repos';
     const params = new URLSearchParams({
       sort: 'updated',
       per_page: '100',
     });
     
-    return this.makeRequest<GitHubRepository[]>(`${endpoint}?${params}`);
+    return `${endpoint}?${params}`;
+  }
+
+  async getRepository(owner: string, repo: string, options: RequestOptions = {}): Promise<GitHubRepository> {
+    return this.makeRequest<GitHubRepository>(`/repos/${owner}/${repo}`, options);
+  }
+
+  async getIssue(fullName: string, number: number, options: RequestOptions = {}): Promise<GitHubIssue> {
+    return this.makeRequest<GitHubIssue>(`/repos/${fullName}/issues/${number}`, options);
   }
 
-  async getRepository(owner: string, repo: string): Promise<GitHubRepository> {
-    return this.makeRequest<GitHubRepository>(`/repos/${owner}/${repo}`);
+  // A repository's full label catalogue, including labels no open issue uses yet
+  async getRepositoryLabels(fullName: string, pagination: PaginationOptions = {}): Promise<GitHubLabel[]> {
+    return this.paginateAll<GitHubLabel>(`/repos/${fullName}/labels?per_page=100`, pagination);
+  }
+
+  async getRepositoryIssues(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'open',
+    options: IssueListOptions = {}
+  ): Promise<GitHubIssue[]> {
+    const issues: GitHubIssue[] = [];
+    for await (const page of this.iterateRepositoryIssues(owner, repo, state, options)) {
+      issues.push(...page);
+    }
+    return issues;
+  }
+
+  async *iterateRepositoryIssues(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'open',
+    options: IssueListOptions = {}
+  ): AsyncGenerator<GitHubIssue[]> {
+    const { includePullRequests = false, ...pagination } = options;
+    for await (const page of this.paginate<GitHubIssue>(this.getRepositoryIssuesEndpoint(owner, repo, state), pagination)) {
+      const issues = includePullRequests ? page : page.filter(issue => !this.isPullRequest(issue));
+      if (issues.length > 0) {
+        yield issues;
+      }
+    }
+  }
+
+  isPullRequest(issue: GitHubIssue): boolean {
+    return Boolean(issue.pull_request);
+  }
+
+  async getRepositoryPullRequests(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'open',
+    pagination: PaginationOptions = {}
+  ): Promise<GitHubPullRequest[]> {
+    const params = new URLSearchParams({
+      state,
+      sort: 'updated',
+      direction: 'desc',
+      per_page: '100',
+    });
+
+    return this.paginateAll<GitHubPullRequest>(`/repos/${owner}/${repo}/pulls?${params}`, pagination);
   }
 
-  async getRepositoryIssues(owner: string, repo: string, state: 'open' | 'closed' | 'all' = 'open'): Promise<GitHubIssue[]> {
+  private getRepositoryIssuesEndpoint(owner: string, repo: string, state: 'open' | 'closed' | 'all'): string {
     const params = new URLSearchParams({
       state,
       sort: 'updated',
       per_page: '100',
     });
     
-    return this.makeRequest<GitHubIssue[]>(`/repos/${owner}/${repo}/issues?${params}`);
+    return `/repos/${owner}/${repo}/issues?${params}`;
+  }
+
+  // Run a GraphQL query. Partial errors are returned alongside the data rather than thrown.
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}, options: RequestOptions = {}): Promise<GraphQLResponse<T>> {
+    const { data } = await this.sendRequest<GraphQLResponse<T>>(this.graphqlUrl, {
+      method: 'POST',
+      body: JSON.stringify({ query, variables }),
+      signal: options.signal,
+    });
+
+    if (!data.data && data.errors?.length) {
+      const [first] = data.errors;
+      if (first.type === 'RATE_LIMITED') {
+        throw new RateLimitError(first.message, this.rateLimiter.getSnapshot().graphql?.resetAt ?? new Date(Date.now() + 60 * 1000), { resource: 'graphql' });
+      }
+      throw new GitHubError(first.message);
+    }
+    return data;
+  }
+
+  // Fetch open issues for many repositories with one aliased GraphQL query per batch,
+  // falling back to one REST call per repository when GraphQL is unavailable.
+  async getIssuesForRepositories(fullNames: string[], options: RequestOptions = {}): Promise<RepositoryIssuesResult[]> {
+    const results = await this.fetchForRepositories<GraphQLIssue, GitHubIssue>(
+      fullNames,
+      {
+        connection: after => `issues(first: 100, after: ${after}, states: OPEN, orderBy: { field: UPDATED_AT, direction: DESC })`,
+        fields: GRAPHQL_ISSUE_FIELDS,
+        map: (issue, fullName) => this.mapGraphQLIssue(issue, fullName),
+      },
+      async (owner, repo) => {
+        // Pull requests count towards the page cap, so they are filtered out only after checking it
+        const items = await this.getRepositoryIssues(owner, repo, 'open', { ...options, includePullRequests: true });
+        return { items: items.filter(issue => !this.isPullRequest(issue)), truncated: items.length >= MAX_PER_PAGE * DEFAULT_MAX_PAGES };
+      },
+      options
+    );
+    return results.map(({ repository, items, error, truncated }) => ({ repository, issues: items, error, truncated }));
+  }
+
+  // Same batching strategy as getIssuesForRepositories, for open pull requests
+  async getPullRequestsForRepositories(fullNames: string[], options: RequestOptions = {}): Promise<RepositoryPullRequestsResult[]> {
+    const results = await this.fetchForRepositories<GraphQLPullRequestNode, GitHubPullRequest>(
+      fullNames,
+      {
+        connection: after => `pullRequests(first: 100, after: ${after}, states: OPEN, orderBy: { field: UPDATED_AT, direction: DESC })`,
+        fields: GRAPHQL_PULL_REQUEST_LIST_FIELDS,
+        map: pr => this.mapGraphQLPullRequest(pr),
+      },
+      async (owner, repo) => {
+        const items = await this.getRepositoryPullRequests(owner, repo, 'open', options);
+        return { items, truncated: items.length >= MAX_PER_PAGE * DEFAULT_MAX_PAGES };
+      },
+      options
+    );
+    return results.map(({ repository, items, error }) => ({ repository, pullRequests: items, error }));
+  }
+
+  private async fetchForRepositories<N, R>(
+    fullNames: string[],
+    graphqlConnection: GraphQLConnectionSpec<N, R>,
+    restFetch: (owner: string, repo: string) => Promise<{ items: R[]; truncated: boolean }>,
+    options: RequestOptions
+  ): Promise<Array<{ repository: string; items: R[]; error?: GitHubError; truncated?: boolean }>> {
+    const results = new Map<string, { repository: string; items: R[]; error?: GitHubError; truncated?: boolean }>();
+    let restFallback: string[] = [];
+
+    // GraphQL always requires authentication
+    if (this.getToken()) {
+      for (let i = 0; i < fullNames.length; i += GRAPHQL_BATCH_SIZE) {
+        const batch = fullNames.slice(i, i + GRAPHQL_BATCH_SIZE);
+        try {
+          const { items, missing, truncated } = await this.fetchConnectionBatch(batch, graphqlConnection, options);
+          items.forEach((repoItems, repository) => {
+            results.set(repository, { repository, items: repoItems, truncated: truncated.includes(repository) });
+          });
+          restFallback.push(...missing);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn('GraphQL batch failed, falling back to REST:', error);
+          restFallback.push(...batch);
+        }
+      }
+    } else {
+      restFallback = fullNames;
+    }
+
+    await Promise.all(restFallback.map(async (repository) => {
+      try {
+        const [owner, repo] = repository.split('/');
+        const { items, truncated } = await restFetch(owner, repo);
+        results.set(repository, { repository, items, truncated });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        results.set(repository, {
+          repository,
+          items: [],
+          error: toGitHubError(error, `Failed to fetch ${repository}`),
+        });
+      }
+    }));
+
+    return fullNames.map(repository => results.get(repository)!);
+  }
+
+  // Returns items per repository, plus the repositories GraphQL could not resolve and those
+  // with more pages than the page cap
+  private async fetchConnectionBatch<N, R>(
+    fullNames: string[],
+    { connection, fields, map }: GraphQLConnectionSpec<N, R>,
+    options: RequestOptions
+  ): Promise<{ items: Map<string, R[]>; missing: string[]; truncated: string[] }> {
+    const items = new Map<string, R[]>(fullNames.map(name => [name, []]));
+    const missing = new Set<string>();
+    let pending = fullNames.map(name => ({ name, after: null as string | null }));
+
+    for (let page = 0; pending.length > 0 && page < DEFAULT_MAX_PAGES; page++) {
+      const variables: Record<string, unknown> = {};
+      const declarations: string[] = [];
+      const selections = pending.map(({ name, after }, index) => {
+        const [owner, repo] = name.split('/');
+        variables[`owner${index}`] = owner;
+        variables[`name${index}`] = repo;
+        variables[`after${index}`] = after;
+        declarations.push(`$owner${index}: String!`, `$name${index}: String!`, `$after${index}: String`);
+        return `r${index}: repository(owner: $owner${index}, name: $name${index}) {
+          connection: ${connection(`$after${index}`)} {
+            ${fields}
+          }
+        }`;
+      });
+
+      const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+      const { data } = await this.graphql<Record<string, { connection: GraphQLConnection<N> } | null>>(query, variables, options);
+
+      pending = pending.flatMap(({ name }, index) => {
+        const repository = data?.[`r${index}`];
+        if (!repository) {
+          missing.add(name);
+          return [];
+        }
+
+        items.get(name)!.push(...repository.connection.nodes.map(node => map(node, name)));
+        const { hasNextPage, endCursor } = repository.connection.pageInfo;
+        return hasNextPage ? [{ name, after: endCursor }] : [];
+      });
+    }
+
+    missing.forEach(name => items.delete(name));
+    return { items, missing: [...missing], truncated: pending.map(({ name }) => name) };
+  }
+
+  private mapGraphQLPullRequest(pr: GraphQLPullRequestNode): GitHubPullRequest {
+    return {
+      id: pr.databaseId,
+      number: pr.number,
+      title: pr.title,
+      state: pr.state === 'OPEN' ? 'open' : 'closed',
+      draft: pr.isDraft,
+      merged_at: pr.mergedAt,
+      created_at: pr.createdAt,
+      updated_at: pr.updatedAt,
+      html_url: pr.url,
+      user: {
+        login: pr.author?.login ?? 'ghost',
+        avatar_url: pr.author?.avatarUrl ?? '',
+      },
+      labels: pr.labels.nodes,
+      comments: pr.comments.totalCount,
+      review_decision: pr.reviewDecision?.toLowerCase() as GitHubPullRequest['review_decision'],
+      closing_issue_numbers: pr.closingIssuesReferences.nodes.map(issue => issue.number),
+    };
+  }
+
+  // Fetch linked pull requests and recent comments for issues found through search, which
+  // returns neither. One aliased GraphQL query per batch, REST timeline calls as a fallback.
+  async getIssueActivity(issues: IssueReference[], options: RequestOptions = {}): Promise<Map<string, IssueActivity>> {
+    const results = new Map<string, IssueActivity>();
+    let restFallback: IssueReference[] = [];
+
+    if (this.getToken()) {
+      for (let i = 0; i < issues.length; i += GRAPHQL_BATCH_SIZE) {
+        const batch = issues.slice(i, i + GRAPHQL_BATCH_SIZE);
+        try {
+          const variables: Record<string, unknown> = {};
+          const declarations: string[] = [];
+          const selections = batch.map(({ repository, number }, index) => {
+            const [owner, repo] = repository.split('/');
+            variables[`owner${index}`] = owner;
+            variables[`name${index}`] = repo;
+            variables[`number${index}`] = number;
+            declarations.push(`$owner${index}: String!`, `$name${index}: String!`, `$number${index}: Int!`);
+            return `i${index}: repository(owner: $owner${index}, name: $name${index}) {
+              issue(number: $number${index}) { ${GRAPHQL_ISSUE_ACTIVITY_FIELDS} }
+            }`;
+          });
+
+          const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+          const { data } = await this.graphql<Record<string, { issue: GraphQLIssueActivity | null } | null>>(query, variables, options);
+
+          batch.forEach((reference, index) => {
+            const issue = data?.[`i${index}`]?.issue;
+            if (issue) {
+              results.set(this.getIssueKey(reference), this.mapGraphQLIssueActivity(issue));
+            } else {
+              restFallback.push(reference);
+            }
+          });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn('GraphQL activity batch failed, falling back to REST:', error);
+          restFallback.push(...batch);
+        }
+      }
+    } else {
+      restFallback = issues;
+    }
+
+    await Promise.all(restFallback.map(async (reference) => {
+      try {
+        results.set(this.getIssueKey(reference), await this.getIssueActivityRest(reference, options));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`Failed to fetch activity for ${this.getIssueKey(reference)}:`, error);
+      }
+    }));
+
+    return results;
+  }
+
+  // Gather maintenance signals for repositories: one aliased GraphQL query per batch,
+  // or a handful of REST calls per repository when GraphQL is unavailable.
+  async getRepositoryHealthSamples(fullNames: string[], options: RequestOptions = {}): Promise<Map<string, RepositoryHealthSample>> {
+    const results = new Map<string, RepositoryHealthSample>();
+    let restFallback: string[] = [];
+
+    if (this.getToken()) {
+      for (let i = 0; i < fullNames.length; i += GRAPHQL_BATCH_SIZE) {
+        const batch = fullNames.slice(i, i + GRAPHQL_BATCH_SIZE);
+        try {
+          const variables: Record<string, unknown> = {};
+          const declarations: string[] = [];
+          const selections = batch.map((name, index) => {
+            const [owner, repo] = name.split('/');
+            variables[`owner${index}`] = owner;
+            variables[`name${index}`] = repo;
+            declarations.push(`$owner${index}: String!`, `$name${index}: String!`);
+            return `h${index}: repository(owner: $owner${index}, name: $name${index}) { ${GRAPHQL_REPOSITORY_HEALTH_FIELDS} }`;
+          });
+
+          const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+          const { data } = await this.graphql<Record<string, GraphQLRepositoryHealth | null>>(query, variables, options);
+
+          batch.forEach((name, index) => {
+            const repository = data?.[`h${index}`];
+            if (repository) {
+              results.set(name, this.mapGraphQLRepositoryHealth(repository, name));
+            } else {
+              restFallback.push(name);
+            }
+          });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.warn('GraphQL health batch failed, falling back to REST:', error);
+          restFallback.push(...batch);
+        }
+      }
+    } else {
+      restFallback = fullNames;
+    }
+
+    await Promise.all(restFallback.map(async (name) => {
+      try {
+        results.set(name, await this.getRepositoryHealthSampleRest(name, options));
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`Failed to fetch health signals for ${name}:`, error);
+      }
+    }));
+
+    return results;
+  }
+
+  // Open issues carrying each repository's newcomer label, counted in aliased GraphQL batches.
+  // GraphQL needs a token, so without one (or when a batch fails) the counts are left out.
+  async getLabelledIssueCounts(
+    targets: Array<{ fullName: string; label: string }>,
+    options: RequestOptions = {}
+  ): Promise<Map<string, number>> {
+    const results = new Map<string, number>();
+    if (!this.getToken()) return results;
+
+    for (let i = 0; i < targets.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = targets.slice(i, i + GRAPHQL_BATCH_SIZE);
+      try {
+        const variables: Record<string, unknown> = {};
+        const declarations: string[] = [];
+        const selections = batch.map(({ fullName, label }, index) => {
+          const [owner, repo] = fullName.split('/');
+          variables[`owner${index}`] = owner;
+          variables[`name${index}`] = repo;
+          variables[`label${index}`] = label;
+          declarations.push(`$owner${index}: String!`, `$name${index}: String!`, `$label${index}: String!`);
+          return `c${index}: repository(owner: $owner${index}, name: $name${index}) { issues(states: OPEN, labels: [$label${index}]) { totalCount } }`;
+        });
+
+        const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+        const { data } = await this.graphql<Record<string, { issues: { totalCount: number } } | null>>(query, variables, options);
+
+        batch.forEach(({ fullName }, index) => {
+          const repository = data?.[`c${index}`];
+          if (repository) results.set(fullName, repository.issues.totalCount);
+        });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('GraphQL issue count batch failed:', error);
+      }
+    }
+
+    return results;
+  }
+
+  // Whether each repository asks contributors to sign a CLA, read from its contributing guides
+  // and CLA bot config. Only Discover's CLA exclusion needs this, so it is kept out of the health
+  // query. Like the label counts it needs a token; repositories left out are unknown.
+  async getClaRequirements(fullNames: string[], options: RequestOptions = {}): Promise<Map<string, boolean>> {
+    const results = new Map<string, boolean>();
+    if (!this.getToken()) return results;
+
+    for (let i = 0; i < fullNames.length; i += GRAPHQL_BATCH_SIZE) {
+      const batch = fullNames.slice(i, i + GRAPHQL_BATCH_SIZE);
+      try {
+        const variables: Record<string, unknown> = {};
+        const declarations: string[] = [];
+        const selections = batch.map((name, index) => {
+          const [owner, repo] = name.split('/');
+          variables[`owner${index}`] = owner;
+          variables[`name${index}`] = repo;
+          declarations.push(`$owner${index}: String!`, `$name${index}: String!`);
+          return `c${index}: repository(owner: $owner${index}, name: $name${index}) { ${GRAPHQL_CLA_FIELDS} }`;
+        });
+
+        const query = `query(${declarations.join(', ')}) { ${selections.join('\n')} }`;
+        const { data } = await this.graphql<Record<string, GraphQLClaFiles | null>>(query, variables, options);
+
+        batch.forEach((name, index) => {
+          const repository = data?.[`c${index}`];
+          if (!repository) return;
+          const guides = [repository.contributing, repository.githubContributing, repository.docsContributing];
+          results.set(name, Boolean(repository.claBot) || guides.some(guide => requiresCla(guide?.text ?? '')));
+        });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('GraphQL CLA batch failed:', error);
+      }
+    }
+
+    return results;
+  }
+
+  private mapGraphQLRepositoryHealth(repository: GraphQLRepositoryHealth, name: string): RepositoryHealthSample {
+    return {
+      repository: name,
+      archived: repository.isArchived,
+      fork: repository.isFork,
+      pushedAt: repository.pushedAt,
+      issues: repository.issues.nodes.map(issue => ({
+        createdAt: issue.createdAt,
+        firstMaintainerReplyAt: issue.comments.nodes.find(comment =>
+          MAINTAINER_ASSOCIATIONS.includes(comment.authorAssociation) && comment.author?.login !== issue.author?.login
+        )?.createdAt ?? null,
+      })),
+      pullRequests: repository.pullRequests.nodes,
+      communityFiles: {
+        readme: [repository.rootFiles, repository.githubFiles, repository.docsFiles]
+          .some(tree => tree?.entries?.some(({ name }) => README_PATTERN.test(name))),
+        contributing: Boolean(repository.contributing || repository.githubContributing || repository.docsContributing),
+        codeOfConduct: Boolean(repository.codeOfConduct),
+        issueTemplate: Boolean(repository.issueTemplates?.length),
+        pullRequestTemplate: Boolean(repository.pullRequestTemplates?.length),
+        license: Boolean(repository.licenseInfo),
+      },
+    };
+  }
+
+  private async getRepositoryHealthSampleRest(name: string, options: RequestOptions): Promise<RepositoryHealthSample> {
+    const sample = { ...options, maxPages: 1 };
+    const [repository, issues, comments, pullRequests, communityProfile] = await Promise.all([
+      this.makeRequest<GitHubRepository>(`/repos/${name}`, { signal: options.signal }),
+      this.paginateAll<GitHubIssue>(`/repos/${name}/issues?state=all&sort=created&direction=desc&per_page=${HEALTH_SAMPLE_SIZE}`, sample),
+      // Newest repository-wide comments; reversed below so the first match per issue is the earliest
+      this.paginateAll<RestIssueComment>(`/repos/${name}/issues/comments?sort=created&direction=desc&per_page=100`, sample),
+      this.paginateAll<GitHubPullRequest & { closed_at: string | null }>(
+        `/repos/${name}/pulls?state=closed&sort=updated&direction=desc&per_page=${HEALTH_SAMPLE_SIZE}`,
+        sample
+      ),
+      this.makeRequest<RestCommunityProfile>(`/repos/${name}/community/profile`, { signal: options.signal }).catch(error => {
+        if (isAbortError(error)) throw error;
+        return null;
+      }),
+    ]);
+    comments.reverse();
+
+    return {
+      repository: name,
+      archived: Boolean(repository.archived),
+      fork: Boolean(repository.fork),
+      pushedAt: repository.pushed_at ?? null,
+      issues: issues
+        .filter(issue => !this.isPullRequest(issue))
+        .map(issue => ({
+          createdAt: issue.created_at,
+          firstMaintainerReplyAt: comments.find(comment =>
+            comment.issue_url.endsWith(`/issues/${issue.number}`) &&
+            MAINTAINER_ASSOCIATIONS.includes(comment.author_association) &&
+            comment.user?.login !== issue.user.login
+          )?.created_at ?? null,
+        })),
+      pullRequests: pullRequests.map(pr => ({ createdAt: pr.created_at, mergedAt: pr.merged_at, closedAt: pr.closed_at })),
+      communityFiles: communityProfile && {
+        readme: Boolean(communityProfile.files.readme),
+        contributing: Boolean(communityProfile.files.contributing),
+        codeOfConduct: Boolean(communityProfile.files.code_of_conduct),
+        issueTemplate: Boolean(communityProfile.files.issue_template),
+        pullRequestTemplate: Boolean(communityProfile.files.pull_request_template),
+        license: Boolean(communityProfile.files.license),
+      },
+    };
+  }
+
+  getIssueKey({ repository, number }: IssueReference): string {
+    return `${repository}#${number}`;
+  }
+
+  private async getIssueActivityRest({ repository, number }: IssueReference, options: RequestOptions): Promise<IssueActivity> {
+    const [timeline, comments] = await Promise.all([
+      this.paginateAll<RestTimelineEvent>(`/repos/${repository}/issues/${number}/timeline?per_page=100`, { ...options, maxPages: 1 }),
+      // Comments come oldest first, so the latest are on the last page
+      this.getLatestItems<IssueComment>(`/repos/${repository}/issues/${number}/comments?per_page=100`, RECENT_COMMENT_COUNT, options),
+    ]);
+
+    // REST connected events carry no subject, so only cross-references can be resolved here
+    const linkedPullRequests = timeline.flatMap(({ event, source, created_at }) => {
+      const pr = source?.issue;
+      if (event !== 'cross-referenced' || !pr?.pull_request) return [];
+      return [{
+        number: pr.number,
+        title: pr.title,
+        html_url: pr.html_url,
+        state: pr.pull_request.merged_at ? 'merged' : pr.state,
+        repository: pr.repository?.full_name ?? pr.repository_url.split('/').slice(-2).join('/'),
+        linked_at: created_at,
+      } satisfies LinkedPullRequest];
+    });
+
+    // Events come oldest first, so later assignments overwrite earlier ones
+    const assignedAt: Record<string, string> = {};
+    timeline.forEach(({ event, assignee, created_at }) => {
+      if (event === 'assigned' && assignee && created_at) assignedAt[assignee.login] = created_at;
+    });
+
+    return { linkedPullRequests, recentComments: comments, assignedAt };
+  }
+
+  private mapGraphQLIssueActivity(issue: GraphQLIssueActivity): IssueActivity {
+    const linkedPullRequests = new Map<string, LinkedPullRequest>();
+
+    for (const item of issue.timelineItems.nodes) {
+      const pr = item.source ?? item.subject;
+      // Cross-references from plain issues come back as empty objects
+      if (!pr?.number) continue;
+
+      linkedPullRequests.set(pr.url, {
+        number: pr.number,
+        title: pr.title,
+        html_url: pr.url,
+        state: pr.state.toLowerCase() as LinkedPullRequest['state'],
+        repository: pr.repository.nameWithOwner,
+        linked_at: item.createdAt,
+      });
+    }
+
+    const assignedAt: Record<string, string> = {};
+    for (const { assignee, createdAt } of issue.assignments.nodes) {
+      if (assignee?.login && createdAt) assignedAt[assignee.login] = createdAt;
+    }
+
+    return {
+      linkedPullRequests: [...linkedPullRequests.values()],
+      recentComments: issue.comments.nodes.map(comment => ({
+        body: comment.body,
+        created_at: comment.createdAt,
+        html_url: comment.url,
+        user: comment.author,
+      })),
+      assignedAt,
+    };
+  }
+
+  // Convert a GraphQL issue node into the REST shape used everywhere else
+  private mapGraphQLIssue(issue: GraphQLIssue, fullName: string): GitHubIssue {
+    const assignees = issue.assignees.nodes.map(a => ({ login: a.login, avatar_url: a.avatarUrl }));
+    const { linkedPullRequests, recentComments, assignedAt } = this.mapGraphQLIssueActivity(issue);
+
+    return {
+      id: issue.databaseId,
+      number: issue.number,
+      title: issue.title,
+      body: issue.body,
+      state: issue.state === 'OPEN' ? 'open' : 'closed',
+      created_at: issue.createdAt,
+      updated_at: issue.updatedAt,
+      labels: issue.labels.nodes,
+      user: {
+        login: issue.author?.login ?? 'ghost',
+        avatar_url: issue.author?.avatarUrl ?? '',
+      },
+      repository_url: `${this.baseUrl}/repos/${fullName}`,
+      html_url: issue.url,
+      comments: issue.comments.totalCount,
+      reactions: { total_count: issue.reactions.totalCount },
+      assignee: assignees[0] ?? null,
+      assignees,
+      linked_pull_requests: linkedPullRequests,
+      recent_comments: recentComments,
+      assigned_at: assignedAt,
+    };
+  }
+
+  // Page through a search endpoint. GitHub never returns more than 1,000 search results.
+  iterateSearch<T>(
+    endpoint: string,
+    pagination: PaginationOptions = {},
+    onTotalCount?: (totalCount: number) => void
+  ): AsyncGenerator<T[]> {
+    return this.paginate<T, SearchResponse<T>>(endpoint, {
+      ...pagination,
+      maxItems: Math.min(pagination.maxItems ?? SEARCH_RESULT_LIMIT, SEARCH_RESULT_LIMIT),
+      select: page => {
+        onTotalCount?.(page.total_count);
+        return page.items;
+      },
+    });
+  }
+
+  // Use the smallest page size that still covers the item cap in as few requests as possible
+  private getSearchPageSize(pagination: PaginationOptions): string {
+    return String(Math.min(MAX_PER_PAGE, pagination.maxItems ?? MAX_PER_PAGE));
+  }
+
+  private async searchAll<T>(endpoint: string, pagination: PaginationOptions = {}): Promise<{ items: T[]; totalCount: number }> {
+    const items: T[] = [];
+    let totalCount = 0;
+    for await (const page of this.iterateSearch<T>(endpoint, pagination, count => { totalCount = count; })) {
+      items.push(...page);
+    }
+    return { items, totalCount };
+  }
+
+  // Run a built query, split into several requests if it exceeds GitHub's limits, and merge
+  // the results. The parts are re-sorted together by the requested sort before the item cap
+  // applies, so no part crowds out the others. A failed part only fails the search when
+  // nothing else came back; `queries` reports each part.
+  private async searchQuery<T extends { id: number }>(
+    path: '/search/issues' | '/search/repositories',
+    query: SearchQuery,
+    sort: Record<string, string>,
+    pagination: PaginationOptions = {}
+  ): Promise<{ items: T[]; queries: SearchQueryReport[] }> {
+    const queries = query.split();
+    const settled = await Promise.allSettled(queries.map(q => {
+      const params = new URLSearchParams({ q, ...sort, per_page: this.getSearchPageSize(pagination) });
+      return this.searchAll<T>(`${path}?${params}`, pagination);
+    }));
+
+    const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    const abort = failures.find(failure => isAbortError(failure.reason));
+    if (abort) throw abort.reason;
+    if (failures.length === settled.length) throw failures[0].reason;
+
+    const seen = new Set<number>();
+    const items = settled
+      .flatMap(result => (result.status === 'fulfilled' ? result.value.items : []))
+      .filter(item => !seen.has(item.id) && Boolean(seen.add(item.id)));
+    const compare = getSearchSortComparator(sort);
+    if (queries.length > 1 && compare) items.sort(compare);
+
+    return {
+      items: pagination.maxItems ? items.slice(0, pagination.maxItems) : items,
+      queries: settled.map((result, index) => result.status === 'fulfilled'
+        ? { query: queries[index], totalCount: result.value.totalCount, itemCount: result.value.items.length }
+        : { query: queries[index], totalCount: 0, itemCount: 0, error: toGitHubError(result.reason, 'Search query failed') }
+      ),
+    };
+  }
+
+  // Fetch a single page of a built query. A split query fetches the same page of every part,
+  // so a page can hold up to `perPage` items per part.
+  private async searchQueryPage<T extends { id: number }>(
+    path: '/search/issues' | '/search/repositories',
+    query: SearchQuery,
+    sort: Record<string, string>,
+    { page = 1, perPage = SEARCH_PAGE_SIZE, signal }: SearchPageOptions = {}
+  ): Promise<SearchPage<T>> {
+    const queries = query.split();
+    const settled = await Promise.allSettled(queries.map(q => {
+      const params = new URLSearchParams({ q, ...sort, per_page: String(perPage), page: String(page) });
+      return this.makeRequest<SearchResponse<T>>(`${path}?${params}`, { signal });
+    }));
+
+    // A failed query only fails the search when nothing else came back
+    const failures = settled.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    const abort = failures.find(failure => isAbortError(failure.reason));
+    if (abort) throw abort.reason;
+    if (failures.length === settled.length) throw failures[0].reason;
+
+    const responses = settled
+      .filter((result): result is PromiseFulfilledResult<SearchResponse<T>> => result.status === 'fulfilled')
+      .map(result => result.value);
+    const seen = new Set<number>();
+    return {
+      items: responses
+        .flatMap(response => response.items)
+        .filter(item => !seen.has(item.id) && Boolean(seen.add(item.id))),
+      totalCount: responses.reduce((total, response) => total + response.total_count, 0),
+      approximateTotal: queries.length > 1,
+      incompleteResults: responses.some(response => response.incomplete_results),
+      page,
+      // Search never goes past the first 1,000 results, whatever total_count says
+      hasMore: responses.some(response => page * perPage < Math.min(response.total_count, SEARCH_RESULT_LIMIT)),
+      queries: settled.map((result, index) => result.status === 'fulfilled'
+        ? { query: queries[index], totalCount: result.value.total_count, itemCount: result.value.items.length }
+        : { query: queries[index], totalCount: 0, itemCount: 0, error: toGitHubError(result.reason, 'Search query failed') }
+      ),
+    };
+  }
+
+  // Open issues carrying the given label (or any of several), or "good first issue" by default,
+  // in repositories written in the given language (or any of several)
+  private getBeginnerIssueQuery(
+    label?: string | string[],
+    language?: string | string[],
+    repository?: string,
+    exclusions?: SearchExclusions
+  ): SearchQuery {
+    const query = this.withExclusions(
+      this.withLanguages(
+        SearchQuery.create()
+          .where('is', 'issue')
+          .where('is', 'open')
+          .where('repo', repository || undefined),
+        language
+      ),
+      exclusions
+    );
+    return Array.isArray(label) && label.length > 0
+      ? query.anyOf('label', label)
+      : query.where('label', (Array.isArray(label) ? undefined : label) || 'good first issue');
+  }
+
+  private getBeginnerRepoQuery(language?: string | string[]): SearchQuery {
+    return this.withLanguages(
+      SearchQuery.create().anyOf('topic', ['good-first-issue', 'beginner-friendly', 'hacktoberfest']),
+      language
+    );
+  }
+
+  private withLanguages(query: SearchQuery, language?: string | string[]): SearchQuery {
+    return Array.isArray(language) ? query.anyOf('language', language) : query.where('language', language || undefined);
+  }
+
+  // Hidden owners first since each one covers more results; whatever does not fit is
+  // left to the client-side filter
+  private withExclusions(query: SearchQuery, exclusions?: SearchExclusions): SearchQuery {
+    if (!exclusions) return query;
+    const qualifiers = [
+      ...exclusions.organizations.map(name => ['org', name] as const),
+      ...exclusions.repositories.map(name => ['repo', name] as const),
+    ].slice(0, MAX_EXCLUSION_QUALIFIERS);
+    return qualifiers.reduce(
+      (result, [qualifier, name]) => result.exclude(qualifier, name),
+      exclusions.archived ? query.where('archived', false) : query
+    );
   }
 
   async searchRepositories(
     query: string, 
     primarySort: 'stars' | 'updated' | 'forks' = 'stars',
-    secondarySort?: 'stars' | 'updated' | 'forks'
+    secondarySort?: 'stars' | 'updated' | 'forks',
+    options: PaginationOptions = {}
   ): Promise<{ items: GitHubRepository[] }> {
+    const pagination = { maxItems: 50, ...options };
     const params = new URLSearchParams({
       q: query,
       sort: primarySort,
       order: 'desc',
-      per_page: '50',
+      per_page: this.getSearchPageSize(pagination),
     });
     
-    const response = await this.makeRequest<{ items: GitHubRepository[] }>(`/search/repositories?${params}`);
+    const response = await this.searchAll<GitHubRepository>(`/search/repositories?${params}`, pagination);
     
     // Apply secondary sorting if specified
     if (secondarySort && secondarySort !== primarySort) {
@@ -233,43 +1655,34 @@ class GitHubService {
     return response;
   }
 
-  // Search for beginner-friendly issues across GitHub
+  // Search for beginner-friendly issues across GitHub, or within one repository. Several
+  // languages or labels match any of them; the search is split into as few queries as
+  // GitHub's operator limit allows and the results merged.
   async searchBeginnerIssues(
-    language?: string, 
-    label?: string, 
+    language?: string | string[], 
+    label?: string | string[], 
     primarySort: 'updated' | 'stars' | 'created' = 'updated',
-    secondarySort?: 'updated' | 'stars' | 'created'
-  ): Promise<{ items: GitHubIssue[] }> {
+    secondarySort?: 'updated' | 'stars' | 'created',
+    repository?: string,
+    exclusions?: SearchExclusions,
+    options: SearchPageOptions = {}
+  ): Promise<SearchPage<GitHubIssue>> {
     // Special handling for the hybrid "recent issues from starred repos" case
-    if (primarySort === 'updated' && secondarySort === 'stars') {
-      return this.searchRecentIssuesFromStarredRepos(language, label);
-    }
-    
-    let query = 'is:issue is:open';
-    
-    if (label) {
-      query += ` label:"${label}"`;
-    } else {
-      // Default to good first issue
-      query += ' label:"good first issue"';
-    }
-    
-    if (language) {
-      query += ` language:${language}`;
+    if (primarySort === 'updated' && secondarySort === 'stars' && !repository) {
+      return this.searchRecentIssuesFromStarredRepos(language, label, exclusions, options);
     }
     
-    // Add additional filters for quality
-    query += ' comments:>=1 comments:<=10'; // Issues with some discussion but not overwhelming
+    const query = this.getBeginnerIssueQuery(label, language, repository, exclusions)
+      .where('comments', '>=1') // Issues with some discussion but not overwhelming
+      .where('comments', '<=10');
     
-    // Always sort by primary sort first in the API request
-    const params = new URLSearchParams({
-      q: query,
-      sort: primarySort === 'stars' ? 'reactions' : primarySort,
-      order: 'desc',
-      per_page: '100', // Get more results to ensure we have enough after filtering
-    });
-    
-    const response = await this.makeRequest<{ items: GitHubIssue[] }>(`/search/issues?${params}`);
+    // GitHub applies the primary sort across pages; the client sort below only orders ties within a page
+    const response = await this.searchQueryPage<GitHubIssue>(
+      '/search/issues',
+      query,
+      { sort: primarySort === 'stars' ? 'reactions' : primarySort, order: 'desc' },
+      options
+    );
     
     // Apply consistent sorting on the client side
     response.items.sort((a, b) => {
@@ -277,7 +1690,7 @@ class GitHubService {
       let comparison = 0;
       switch (primarySort) {
         case 'stars':
-          comparison = ((b as any).reactions?.total_count || 0) - ((a as any).reactions?.total_count || 0);
+          comparison = (b.reactions?.total_count || 0) - (a.reactions?.total_count || 0);
           break;
         case 'updated':
           comparison = new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
@@ -291,7 +1704,7 @@ class GitHubService {
       if (comparison === 0 && secondarySort && secondarySort !== primarySort) {
         switch (secondarySort) {
           case 'stars':
-            comparison = ((b as any).reactions?.total_count || 0) - ((a as any).reactions?.total_count || 0);
+            comparison = (b.reactions?.total_count || 0) - (a.reactions?.total_count || 0);
             break;
           case 'updated':
             comparison = new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime();
@@ -305,64 +1718,67 @@ class GitHubService {
       return comparison;
     });
     
-    // Ensure we don't return more than 50 items
-    if (response.items.length > 50) {
-      response.items = response.items.slice(0, 50);
-    }
-    
     return response;
   }
 
+  // The same filters as searchBeginnerIssues without its comment-count bounds, most recently
+  // updated first, so issues nobody has commented on yet are found as soon as they are opened
+  async searchLatestBeginnerIssues(
+    language?: string | string[],
+    label?: string | string[],
+    repository?: string,
+    exclusions?: SearchExclusions,
+    options: SearchPageOptions = {}
+  ): Promise<SearchPage<GitHubIssue>> {
+    return this.searchQueryPage<GitHubIssue>(
+      '/search/issues',
+      this.getBeginnerIssueQuery(label, language, repository, exclusions),
+      { sort: 'updated', order: 'desc' },
+      options
+    );
+  }
+
   // Special method to find recent issues from highly-starred repositories
   private async searchRecentIssuesFromStarredRepos(
-    language?: string, 
-    label?: string
-  ): Promise<{ items: GitHubIssue[] }> {
+    language?: string | string[], 
+    label?: string | string[],
+    exclusions?: SearchExclusions,
+    options: RequestOptions = {}
+  ): Promise<SearchPage<GitHubIssue>> {
     // First, find highly-starred repositories with beginner issues
-    let repoQuery = 'topic:good-first-issue OR topic:beginner-friendly OR topic:hacktoberfest';
-    
-    if (language) {
-      repoQuery += ` language:${language}`;
-    }
-    
-    repoQuery += ' stars:>500'; // Focus on well-established repos
-    
-    const repoParams = new URLSearchParams({
-      q: repoQuery,
-      sort: 'stars',
-      order: 'desc',
-      per_page: '20', // Get top 20 starred repos
-    });
+    const repoQuery = this.getBeginnerRepoQuery(language).where('stars', '>500'); // Focus on well-established repos
     
     try {
-      const repoResponse = await this.makeRequest<{ items: GitHubRepository[] }>(`/search/repositories?${repoParams}`);
+      const repoResponse = await this.searchQuery<GitHubRepository>(
+        '/search/repositories',
+        repoQuery,
+        { sort: 'stars', order: 'desc' },
+        { ...options, maxItems: 20 } // Get top 20 starred repos
+      );
       
       // Now search for recent issues in these specific repositories
-      const repoNames = repoResponse.items.map(repo => repo.full_name).slice(0, 10); // Top 10 repos
-      
-      let issueQuery = 'is:issue is:open';
-      
-      if (label) {
-        issueQuery += ` label:"${label}"`;
-      } else {
-        issueQuery += ' label:"good first issue"';
+      // Hidden repositories are dropped before picking the top 10 rather than excluded in the query
+      const repoNames = repoResponse.items
+        .filter(repo => !exclusions || !isRepositoryExcluded(repo.full_name, exclusions, repo))
+        .map(repo => repo.full_name)
+        .slice(0, 10); // Top 10 repos
+      // An empty repo group would be left out of the query and search all of GitHub instead
+      if (repoNames.length === 0) {
+        return { items: [], totalCount: 0, approximateTotal: false, incompleteResults: false, page: 1, hasMore: false, queries: [] };
       }
       
-      // Add repository filter
-      const repoFilter = repoNames.map(name => `repo:${name}`).join(' OR ');
-      issueQuery += ` (${repoFilter})`;
-      
-      // Add quality filters
-      issueQuery += ' comments:>=1 comments:<=15';
+      // The repo group is split across requests when it has too many OR operators
+      const issueQuery = this.getBeginnerIssueQuery(label)
+        .anyOf('repo', repoNames)
+        .where('comments', '>=1')
+        .where('comments', '<=15');
       
-      const issueParams = new URLSearchParams({
-        q: issueQuery,
-        sort: 'updated', // Most recent issues
-        order: 'desc',
-        per_page: '50',
-      });
-      
-      const issueResponse = await this.makeRequest<{ items: GitHubIssue[] }>(`/search/issues?${issueParams}`);
+      const issueResponse = await this.searchQuery<GitHubIssue>(
+        '/search/issues',
+        issueQuery,
+        { sort: 'updated', order: 'desc' }, // Most recent issues
+        { ...options, maxItems: 50 }
+      );
       
       // Enhance issues with repository star count for better sorting
       const enhancedIssues = issueResponse.items.map(issue => {
@@ -375,79 +1791,45 @@ class GitHubService {
       });
       
       // Sort by a combination of recency and repository popularity
-      enhancedIssues.sort((a, b) => {
-        const aScore = this.calculateHybridScore(a, a.repository_stars);
-        const bScore = this.calculateHybridScore(b, b.repository_stars);
-        return bScore - aScore;
-      });
+      const rankedIssues = rankingEngine
+        .rank(enhancedIssues, toRankingInput, HYBRID_RANKING_WEIGHTS)
+        .map(({ item }) => item);
       
-      return { items: enhancedIssues };
+      // A fixed set of repositories, so everything comes back on the first page
+      return {
+        items: rankedIssues,
+        totalCount: enhancedIssues.length,
+        approximateTotal: false,
+        incompleteResults: false,
+        page: 1,
+        hasMore: false,
+        queries: issueResponse.queries,
+      };
       
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Failed to search recent issues from starred repos:', error);
       // Fallback to regular search
-      return this.searchBeginnerIssues(language, label, 'updated');
+      return this.searchBeginnerIssues(language, label, 'updated', undefined, undefined, exclusions, { signal: options.signal });
     }
   }
   
-  // Calculate a hybrid score combining recency and repository popularity
-  private calculateHybridScore(issue: GitHubIssue, repoStars: number): number {
-    const now = new Date().getTime();
-    const issueAge = now - new Date(issue.updated_at).getTime();
-    const daysSinceUpdate = issueAge / (1000 * 60 * 60 * 24);
-    
-    // Recency score (higher for more recent issues)
-    const recencyScore = Math.max(0, 100 - daysSinceUpdate);
-    
-    // Repository popularity score (logarithmic to prevent huge repos from dominating)
-    const popularityScore = Math.log10(Math.max(1, repoStars)) * 10;
-    
-    // Combine scores with slight preference for recency
-    return (recencyScore * 0.6) + (popularityScore * 0.4);
-  }
-
-  // Get beginner-friendly repositories
-  async getBeginnerFriendlyRepos(): Promise<GitHubRepository[]> {
-    const repos: GitHubRepository[] = [];
-    
-    // Fetch a subset of popular beginner-friendly repos
-    const repoSubset = this.beginnerRepos.slice(0, 20);
-    
-    for (const repoPath of repoSubset) {
-      try {
-        const [owner, repo] = repoPath.split('/');
-        const repository = await this.getRepository(owner, repo);
-        repos.push(repository);
-      } catch (error) {
-        console.warn(`Failed to fetch ${repoPath}:`, error);
-      }
-    }
-    
-    return repos;
-  }
-
   // Search repositories with beginner-friendly topics
   async searchBeginnerRepos(
     language?: string, 
     primarySort: 'stars' | 'updated' | 'forks' = 'stars',
-    secondarySort?: 'stars' | 'updated' | 'forks'
+    secondarySort?: 'stars' | 'updated' | 'forks',
+    options: PaginationOptions = {}
   ): Promise<{ items: GitHubRepository[] }> {
-    let query = 'topic:good-first-issue OR topic:beginner-friendly OR topic:hacktoberfest';
-    
-    if (language) {
-      query += ` language:${language}`;
-    }
-    
-    query += ' stars:>100'; // Ensure repos have some community
-    
-    const params = new URLSearchParams({
-      q: query,
-      sort: primarySort,
-      order: 'desc',
-      per_page: '30',
-    });
+    const pagination = { maxItems: 30, ...options };
+    const query = this.getBeginnerRepoQuery(language).where('stars', '>100'); // Ensure repos have some community
     
-    const response = await this.makeRequest<{ items: GitHubRepository[] }>(`/search/repositories?${params}`);
+    const response = await this.searchQuery<GitHubRepository>(
+      '/search/repositories',
+      query,
+      { sort: primarySort, order: 'desc' },
+      pagination
+    );
     
     // Apply secondary sorting if specified
     if (secondarySort && secondarySort !== primarySort) {
@@ -468,6 +1850,42 @@ class GitHubService {
     return response;
   }
 
+  // Issues in the given repositories that were opened, closed or updated within a time window.
+  // Repositories are searched in groups that each fit one query, and the item cap applies to each
+  // group, so a busy repository can't crowd the others out. Groups that hit the cap are reported.
+  // Groups run one at a time to go easy on the search rate limit.
+  async searchIssuesInWindow(
+    repositories: string[],
+    event: 'created' | 'closed' | 'updated',
+    since: Date,
+    until: Date,
+    options: PaginationOptions = {}
+  ): Promise<WindowSearchResult> {
+    const maxItems = options.maxItems ?? WINDOW_SEARCH_MAX_ITEMS;
+    // Search dates take no milliseconds
+    const toSearchDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const groups: string[][] = [];
+    for (let i = 0; i < repositories.length; i += GITHUB_SEARCH_LIMITS.maxOperators + 1) {
+      groups.push(repositories.slice(i, i + GITHUB_SEARCH_LIMITS.maxOperators + 1));
+    }
+
+    const responses: Array<{ group: string[]; items: GitHubIssue[] }> = [];
+    for (const group of groups) {
+      const query = SearchQuery.create()
+        .where('is', 'issue')
+        .where('is', event === 'closed' ? 'closed' : undefined)
+        .anyOf('repo', group)
+        .where(event, `${toSearchDate(since)}..${toSearchDate(until)}`);
+      const { items } = await this.searchQuery<GitHubIssue>('/search/issues', query, { sort: 'updated', order: 'desc' }, { ...options, maxItems });
+      responses.push({ group, items });
+    }
+
+    return {
+      items: responses.flatMap(({ items }) => items),
+      truncated: responses.flatMap(({ group, items }) => (items.length >= maxItems ? group : [])),
+    };
+  }
+
   // GitHub OAuth flow helpers
   getAuthUrl(): string {
     const clientId = import.meta.env.VITE_GITHUB_CLIENT_ID;
@@ -481,7 +1899,7 @@ class GitHubService {
       redirect_uri: window.location.origin + '/auth/callback',
     });
     
-    return `https://github.com/login/oauth/authorize?${params}`;
+    return `${this.getWebUrl()}/login/oauth/authorize?${params}`;
   }
 
   async exchangeCodeForToken(code: string): Promise<string> {
@@ -492,134 +1910,59 @@ class GitHubService {
 
   // Utility methods
   parseRepositoryUrl(url: string): { owner: string; repo: string } | null {
-    const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
+    // Accept links from github.com as well as the configured enterprise host
+    const hosts = new Set(['github.com', new URL(this.getWebUrl()).host]);
+    const hostPattern = [...hosts].map(host => host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    const match = url.match(new RegExp(`(?:${hostPattern})/([^/\\s]+)/([^/\\s#?]+)`));
     if (match) {
-      return { owner: match[1], repo: match[2] };
+      return { owner: match[1], repo: match[2].replace(/\.git$/, '') };
     }
     return null;
   }
 
+  // Classification with the built-in rules; the dashboard applies the user's own rules instead
   categorizeIssue(issue: GitHubIssue): string {
-    const title = issue.title.toLowerCase();
-    const labels = issue.labels.map(l => l.name.toLowerCase());
-    
-    // Check for beginner-friendly labels first
-    if (labels.some(l => this.beginnerLabels.some(bl => l.includes(bl)))) {
-      if (labels.some(l => l.includes('good first issue') || l.includes('good-first-issue'))) {
-        return 'good-first-issue';
-      }
-      if (labels.some(l => l.includes('documentation') || l.includes('docs'))) {
-        return 'documentation';
-      }
-      if (labels.some(l => l.includes('beginner') || l.includes('easy'))) {
-        return 'beginner-friendly';
-      }
-      if (labels.some(l => l.includes('help wanted') || l.includes('up-for-grabs'))) {
-        return 'help-wanted';
-      }
-    }
-    
-    // Extended categorization for all issue types
-    if (labels.some(l => l.includes('feature') || l.includes('new feature')) || title.includes('add ') || title.includes('implement')) {
-      return 'feature';
-    }
-    if (labels.some(l => l.includes('performance') || l.includes('optimization')) || title.includes('optimize') || title.includes('performance')) {
-      return 'performance';
-    }
-    if (labels.some(l => l.includes('ui') || l.includes('ux') || l.includes('design')) || title.includes('ui') || title.includes('design')) {
-      return 'ui-ux';
-    }
-    if (labels.some(l => l.includes('test') || l.includes('testing')) || title.includes('test')) {
-      return 'testing';
-    }
-    if (labels.some(l => l.includes('refactor') || l.includes('cleanup')) || title.includes('refactor') || title.includes('cleanup')) {
-      return 'refactoring';
-    }
-    if (labels.some(l => l.includes('accessibility') || l.includes('a11y')) || title.includes('accessibility')) {
-      return 'accessibility';
-    }
-    if (labels.some(l => l.includes('api')) || title.includes('api')) {
-      return 'api';
-    }
-    if (labels.some(l => l.includes('database') || l.includes('db')) || title.includes('database')) {
-      return 'database';
-    }
-    if (labels.some(l => l.includes('deploy') || l.includes('ci') || l.includes('cd')) || title.includes('deploy')) {
-      return 'deployment';
-    }
-    // Standard categorization
-    if (labels.some(l => l.includes('security') || l.includes('vulnerability'))) {
-      return 'security';
-    }
-    if (labels.some(l => l.includes('bug') || l.includes('fix')) || title.includes('bug') || title.includes('error')) {
-      return 'bug';
-    }
-    if (labels.some(l => l.includes('feature') || l.includes('enhancement')) || title.includes('feature')) {
-      return 'enhancement';
-    }
-    if (labels.some(l => l.includes('typo') || l.includes('spelling'))) {
-      return 'typo';
-    }
-    
-    return 'other';
+    return classificationService.classify(toClassifiableIssue(issue)).category;
   }
 
   getPriorityFromIssue(issue: GitHubIssue): 'low' | 'medium' | 'high' {
-    const labels = issue.labels.map(l => l.name.toLowerCase());
-    
-    // Beginner issues are typically low priority for learning
-    if (labels.some(l => this.beginnerLabels.some(bl => l.includes(bl)))) {
-      return 'low';
-    }
-    
-    if (labels.some(l => l.includes('critical') || l.includes('urgent') || l.includes('high'))) {
-      return 'high';
-    }
-    if (labels.some(l => l.includes('medium') || l.includes('important'))) {
-      return 'medium';
-    }
-    
-    return 'low';
+    return classificationService.classify(toClassifiableIssue(issue)).priority;
   }
 
   getDifficultyFromIssue(issue: GitHubIssue): 'beginner' | 'intermediate' | 'advanced' {
-    const labels = issue.labels.map(l => l.name.toLowerCase());
-    const title = issue.title.toLowerCase();
-    
-    // Check for explicit beginner indicators
-    if (labels.some(l => 
-      l.includes('good first issue') || 
-      l.includes('beginner') || 
-      l.includes('easy') || 
-      l.includes('starter') ||
-      l.includes('first-timers-only') ||
-      l.includes('documentation') ||
-      l.includes('typo')
-    )) {
-      return 'beginner';
-    }
-    
-    // Check for advanced indicators
-    if (labels.some(l => 
-      l.includes('advanced') || 
-      l.includes('complex') || 
-      l.includes('architecture') ||
-      l.includes('performance') ||
-      l.includes('security')
-    ) || title.includes('refactor') || title.includes('optimize')) {
-      return 'advanced';
-    }
-    
-    return 'intermediate';
+    return estimateDifficulty(toDifficultyInput(issue)).level;
   }
 
   getBeginnerLabels(): string[] {
     return this.beginnerLabels;
   }
-
-  getPopularBeginnerRepos(): string[] {
-    return this.beginnerRepos;
-  }
 }
 
-export const githubService = new GitHubService();
\ No newline at end of file
+export const githubService = new GitHubService();
+
+// Map a GitHub issue onto the inputs the ranking engine scores
+export const toRankingInput = (issue: GitHubIssue): RankingInput => ({
+  updatedAt: issue.updated_at,
+  comments: issue.comments,
+  reactions: issue.reactions?.total_count,
+  labels: issue.labels.map(label => label.name),
+  repositoryStars: issue.repository_stars,
+});
+
+// Map a GitHub issue onto what classification rules match against
+export const toClassifiableIssue = (issue: GitHubIssue): ClassifiableIssue => ({
+  title: issue.title,
+  labels: issue.labels.map(label => label.name),
+  repository: issue.repository_url.split('/').slice(-2).join('/'),
+});
+
+// Map a GitHub issue onto the difficulty estimator's inputs, using the built-in rules for labels
+export const toDifficultyInput = (issue: GitHubIssue): DifficultyInput => {
+  const classification = classificationService.classify(toClassifiableIssue(issue));
+  return {
+    title: issue.title,
+    body: issue.body,
+    comments: issue.comments,
+    labelDifficulty: classification.matchedTerms.difficulty ? classification.difficulty : undefined,
+  };
+};
@@ -0,0 +1,163 @@
+import { githubService, CommunityFiles, RepositoryHealthSample, RequestOptions } from './github';
+import { HealthSignal, HealthSignalKey, RepositoryHealth } from '../types';
+
+const SIGNAL_WEIGHTS: Record<HealthSignalKey, number> = {
+  activity: 0.3,
+  responsiveness: 0.3,
+  pullRequests: 0.2,
+  community: 0.2,
+};
+
+// Minimum score for each grade; also the options offered by the Discover health filter
+export const HEALTH_THRESHOLDS = { healthy: 70, fair: 40 };
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Unanswered issues younger than this are not held against the maintainers yet
+const REPLY_GRACE_MS = 3 * DAY_MS;
+
+const COMMUNITY_FILE_LABELS: Record<keyof CommunityFiles, string> = {
+  readme: 'README',
+  contributing: 'CONTRIBUTING',
+  codeOfConduct: 'code of conduct',
+  issueTemplate: 'issue template',
+  pullRequestTemplate: 'PR template',
+  license: 'license',
+};
+
+// Score by the first step whose upper bound the value is within
+const stepScore = (value: number, steps: Array<[number, number]>, fallback: number) =>
+  steps.find(([max]) => value <= max)?.[1] ?? fallback;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / HOUR_MS))}h`;
+  return `${Math.round(ms / DAY_MS)}d`;
+};
+
+const scoreActivity = (pushedAt: string | null): Pick<HealthSignal, 'score' | 'detail'> => {
+  if (!pushedAt) return { score: null, detail: 'No pushes recorded' };
+  const days = (Date.now() - new Date(pushedAt).getTime()) / DAY_MS;
+  return {
+    score: stepScore(days, [[7, 100], [30, 85], [90, 60], [180, 35], [365, 15]], 0),
+    detail: `Last push ${formatDuration(Date.now() - new Date(pushedAt).getTime())} ago`,
+  };
+};
+
+const scoreResponsiveness = (issues: RepositoryHealthSample['issues']): Pick<HealthSignal, 'score' | 'detail'> => {
+  const now = Date.now();
+  const considered = issues.filter(issue =>
+    issue.firstMaintainerReplyAt || now - new Date(issue.createdAt).getTime() > REPLY_GRACE_MS
+  );
+  if (considered.length === 0) return { score: null, detail: 'Not enough recent issues' };
+
+  // Unanswered issues count as infinitely slow, so a mostly silent tracker scores zero
+  const replyTimes = considered.map(issue =>
+    issue.firstMaintainerReplyAt
+      ? new Date(issue.firstMaintainerReplyAt).getTime() - new Date(issue.createdAt).getTime()
+      : Infinity
+  );
+  const answered = replyTimes.filter(Number.isFinite).length;
+  const medianReply = median(replyTimes);
+
+  return {
+    score: Number.isFinite(medianReply)
+      ? stepScore(medianReply / HOUR_MS, [[24, 100], [72, 80], [168, 60], [720, 30]], 10)
+      : 0,
+    detail: Number.isFinite(medianReply)
+      ? `Maintainers reply in ${formatDuration(medianReply)} (median, ${answered}/${considered.length} answered)`
+      : `Maintainers answered ${answered} of ${considered.length} recent issues`,
+  };
+};
+
+const scorePullRequests = (pullRequests: RepositoryHealthSample['pullRequests']): Pick<HealthSignal, 'score' | 'detail'> => {
+  if (pullRequests.length === 0) return { score: null, detail: 'No recently closed pull requests' };
+
+  const merged = pullRequests.filter(pr => pr.mergedAt);
+  const mergeRate = merged.length / pullRequests.length;
+  const mergeTimes = merged.map(pr => new Date(pr.mergedAt!).getTime() - new Date(pr.createdAt).getTime());
+  const medianMerge = mergeTimes.length > 0 ? median(mergeTimes) : null;
+  const latencyScore = medianMerge === null ? 0 : stepScore(medianMerge / DAY_MS, [[3, 100], [14, 70], [30, 40]], 15);
+
+  return {
+    score: Math.round(mergeRate * 60 + latencyScore * 0.4),
+    detail: `${Math.round(mergeRate * 100)}% of ${pullRequests.length} closed PRs merged` +
+      (medianMerge === null ? '' : `, median ${formatDuration(medianMerge)} to merge`),
+  };
+};
+
+const scoreCommunity = (files: CommunityFiles | null): Pick<HealthSignal, 'score' | 'detail'> => {
+  if (!files) return { score: null, detail: 'Community profile unavailable' };
+
+  const keys = Object.keys(COMMUNITY_FILE_LABELS) as Array<keyof CommunityFiles>;
+  const missing = keys.filter(key => !files[key]).map(key => COMMUNITY_FILE_LABELS[key]);
+  return {
+    score: Math.round(((keys.length - missing.length) / keys.length) * 100),
+    detail: missing.length === 0 ? 'All community files present' : `Missing ${missing.join(', ')}`,
+  };
+};
+
+// Combine the measured signals into a 0-100 score. Signals that could not be measured
+// are left out and the remaining weights rescaled; archived repositories always score 0.
+export const computeRepositoryHealth = (sample: RepositoryHealthSample): RepositoryHealth => {
+  const signals: HealthSignal[] = [
+    { key: 'activity', label: 'Activity', weight: SIGNAL_WEIGHTS.activity, ...scoreActivity(sample.pushedAt) },
+    { key: 'responsiveness', label: 'Maintainer replies', weight: SIGNAL_WEIGHTS.responsiveness, ...scoreResponsiveness(sample.issues) },
+    { key: 'pullRequests', label: 'Pull requests', weight: SIGNAL_WEIGHTS.pullRequests, ...scorePullRequests(sample.pullRequests) },
+    { key: 'community', label: 'Community files', weight: SIGNAL_WEIGHTS.community, ...scoreCommunity(sample.communityFiles) },
+  ];
+
+  const measured = signals.filter(signal => signal.score !== null);
+  const totalWeight = measured.reduce((sum, signal) => sum + signal.weight, 0);
+  const score = sample.archived || totalWeight === 0
+    ? 0
+    : Math.round(measured.reduce((sum, signal) => sum + signal.score! * signal.weight, 0) / totalWeight);
+
+  return {
+    repository: sample.repository,
+    score,
+    grade: score >= HEALTH_THRESHOLDS.healthy ? 'healthy' : score >= HEALTH_THRESHOLDS.fair ? 'fair' : 'poor',
+    archived: sample.archived,
+    fork: sample.fork,
+    signals,
+  };
+};
+
+// Caches health per repository for a few hours; the signals move slowly and each
+// lookup costs several requests when GraphQL is unavailable.
+class HealthService {
+  private cache = new Map<string, { health: RepositoryHealth; storedAt: number }>();
+
+  async getHealth(fullNames: string[], options: RequestOptions = {}): Promise<Map<string, RepositoryHealth>> {
+    const results = new Map<string, RepositoryHealth>();
+    const stale: string[] = [];
+
+    new Set(fullNames).forEach(name => {
+      const cached = this.cache.get(name.toLowerCase());
+      if (cached && Date.now() - cached.storedAt < CACHE_TTL_MS) {
+        results.set(name, cached.health);
+      } else {
+        stale.push(name);
+      }
+    });
+
+    if (stale.length > 0) {
+      const samples = await githubService.getRepositoryHealthSamples(stale, options);
+      samples.forEach((sample, name) => {
+        const health = computeRepositoryHealth(sample);
+        this.cache.set(name.toLowerCase(), { health, storedAt: Date.now() });
+        results.set(name, health);
+      });
+    }
+
+    return results;
+  }
+}
+
+export const healthService = new HealthService();
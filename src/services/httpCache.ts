@@ -0,0 +1,163 @@
+export interface CachedResponse {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  // Link header of the cached page, so pagination still works when GitHub answers 304
+  link?: string;
+  data: unknown;
+  // When the response was stored or last revalidated
+  storedAt: number;
+}
+
+const DB_NAME = 'giteasy-http-cache';
+const DB_VERSION = 2;
+const STORE_NAME = 'responses';
+const STORED_AT_INDEX = 'storedAt';
+
+// Entries not revalidated for a week are dropped, and past the caps the stalest go first
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_STORED_ENTRIES = 2000;
+const MAX_MEMORY_ENTRIES = 500;
+// Pruning walks the store, so it runs once per this many writes rather than on every one
+const PRUNE_INTERVAL = 50;
+
+// Wraps an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Response cache backed by IndexedDB with an in-memory layer in front of it.
+// Falls back to memory only when IndexedDB is unavailable (e.g. private browsing).
+// Both layers are bounded: memory keeps the most recently used entries, and the database is
+// pruned by age and size every so often.
+export class HttpCache {
+  private memory = new Map<string, CachedResponse>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private writesSincePrune = 0;
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.objectStoreNames.contains(STORE_NAME)
+            ? request.transaction!.objectStore(STORE_NAME)
+            : request.result.createObjectStore(STORE_NAME, { keyPath: 'url' });
+          if (!store.indexNames.contains(STORED_AT_INDEX)) {
+            store.createIndex(STORED_AT_INDEX, STORED_AT_INDEX);
+          }
+        };
+        request.onsuccess = () => {
+          resolve(request.result);
+          this.prune(request.result);
+        };
+        request.onerror = () => {
+          console.warn('HTTP cache unavailable, using memory only:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async get(url: string): Promise<CachedResponse | undefined> {
+    const cached = this.memory.get(url);
+    if (cached && !this.isExpired(cached)) {
+      this.remember(cached);
+      return cached;
+    }
+
+    const db = await this.openDatabase();
+    if (!db) return undefined;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const entry = await promisify<CachedResponse | undefined>(store.get(url));
+      if (!entry || this.isExpired(entry)) return undefined;
+      this.remember(entry);
+      return entry;
+    } catch (error) {
+      console.warn(`Failed to read cached response for ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  async set(entry: CachedResponse) {
+    this.remember(entry);
+
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.put(entry));
+    } catch (error) {
+      console.warn(`Failed to cache response for ${entry.url}:`, error);
+    }
+
+    if (++this.writesSincePrune >= PRUNE_INTERVAL) {
+      await this.prune(db);
+    }
+  }
+
+  private isExpired(entry: CachedResponse): boolean {
+    return Date.now() - entry.storedAt > MAX_AGE_MS;
+  }
+
+  // Map iteration follows insertion order, so re-inserting keeps the least recently used first
+  private remember(entry: CachedResponse) {
+    this.memory.delete(entry.url);
+    this.memory.set(entry.url, entry);
+    if (this.memory.size > MAX_MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  // Delete entries past the maximum age, then the stalest ones over the size cap
+  private async prune(db: IDBDatabase) {
+    this.writesSincePrune = 0;
+    try {
+      const index = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).index(STORED_AT_INDEX);
+      let excess = (await promisify(index.count())) - MAX_STORED_ENTRIES;
+      const expiredBefore = Date.now() - MAX_AGE_MS;
+
+      await new Promise<void>((resolve, reject) => {
+        const request = index.openCursor();
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || (excess <= 0 && (cursor.value as CachedResponse).storedAt >= expiredBefore)) {
+            resolve();
+            return;
+          }
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      });
+    } catch (error) {
+      console.warn('Failed to prune HTTP cache:', error);
+    }
+  }
+
+  async clear() {
+    this.memory.clear();
+
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.clear());
+    } catch (error) {
+      console.warn('Failed to clear HTTP cache:', error);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { githubService, GitHubLabel, RequestOptions, isAbortError } from './github';
+import { ClassificationRule, RepositoryLabelMapping } from '../types';
+
+// GitEasy's categories and the label names projects use for them, in normalised form
+// (lowercase, separators as single spaces). Earlier categories win when a label fits several.
+export const LABEL_SYNONYMS: Record<string, string[]> = {
+  'good-first-issue': [
+    'good first issue', 'good first issues', 'good first bug', 'good first contribution', 'first timers only',
+    'first timer', 'first timers', 'first contribution', 'newcomer', 'newcomers', 'new contributor', 'new contributors',
+  ],
+  'beginner-friendly': [
+    'beginner', 'beginners', 'beginner friendly', 'easy', 'easy fix', 'easy pick', 'easypick', 'starter', 'low hanging fruit',
+    'junior job', 'trivial', 'bite sized', 'bitesize', 'quick win', 'entry level', 'mentored', 'mentor available',
+  ],
+  'help-wanted': ['help wanted', 'up for grabs', 'contributions welcome', 'pr welcome', 'prs welcome', 'help needed', 'needs help'],
+  documentation: ['documentation', 'docs', 'doc', 'readme', 'guides', 'examples'],
+  security: ['security', 'vulnerability', 'cve'],
+  bug: ['bug', 'bugs', 'defect', 'regression', 'crash', 'broken', 'fix'],
+  feature: ['feature', 'feature request', 'new feature', 'proposal'],
+  enhancement: ['enhancement', 'enhancements', 'improvement', 'improvements'],
+  performance: ['performance', 'perf', 'optimization', 'optimisation', 'speed'],
+  'ui-ux': ['ui', 'ux', 'ui ux', 'design', 'frontend', 'styling'],
+  testing: ['test', 'tests', 'testing', 'test coverage', 'unit tests', 'e2e'],
+  refactoring: ['refactor', 'refactoring', 'cleanup', 'clean up', 'tech debt', 'technical debt', 'code quality'],
+  accessibility: ['accessibility', 'a11y'],
+  api: ['api'],
+  database: ['database', 'db', 'sql', 'migrations'],
+  deployment: ['deployment', 'deploy', 'ci', 'cd', 'ci cd', 'infra', 'infrastructure', 'devops', 'docker'],
+  typo: ['typo', 'typos', 'spelling', 'grammar'],
+};
+
+// Categories that also mark an issue as beginner difficulty and low priority
+const BEGINNER_CATEGORIES = ['good-first-issue', 'beginner-friendly'];
+
+// Prefixes projects put in front of the meaningful part, e.g. "E-easy", "D-newcomer",
+// "difficulty: starter", "level/beginner" or "good for: beginners"
+const LABEL_PREFIX = /^(?:(?:[a-z]{1,2}|difficulty|level|type|kind|status|area|complexity|effort|skill|exp|experience)\s*[-:/]|good for)\s*/;
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const normalise = (label: string) =>
+  label
+    .toLowerCase()
+    // Emoji and other symbols some projects decorate labels with
+    .replace(/[^\p{L}\p{N}\s:/_-]/gu, '')
+    .trim();
+
+const toWords = (label: string) => label.replace(/[\s:/_-]+/g, ' ').trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SYNONYM_LOOKUP = new Map<string, string>();
+Object.entries(LABEL_SYNONYMS).forEach(([category, synonyms]) => {
+  synonyms.forEach(synonym => {
+    if (!SYNONYM_LOOKUP.has(synonym)) SYNONYM_LOOKUP.set(synonym, category);
+  });
+});
+
+// Reads each repository's label catalogue and maps labels onto GitEasy's categories. Catalogues
+// are cached for a few hours since projects rarely rename their labels.
+class LabelMappingService {
+  private cache = new Map<string, { labels: GitHubLabel[]; storedAt: number }>();
+
+  // The category a label most likely means, or null when it is not recognised
+  suggestCategory(label: string): string | null {
+    const normalised = normalise(label);
+    const stripped = normalised.replace(LABEL_PREFIX, '');
+    // The full name first so "up-for-grabs" is not read as "for grabs"
+    return SYNONYM_LOOKUP.get(toWords(normalised)) ?? SYNONYM_LOOKUP.get(toWords(stripped)) ?? null;
+  }
+
+  // Suggested categories with the user's overrides applied, for every label in the catalogue
+  resolveMapping(labels: string[], mapping?: RepositoryLabelMapping): Record<string, string | null> {
+    return Object.fromEntries(labels.map(label => [
+      label,
+      mapping && label in mapping.overrides ? mapping.overrides[label] : this.suggestCategory(label),
+    ]));
+  }
+
+  // Labels of one repository that map to a category, e.g. to scope a search to them
+  getLabelsForCategory(category: string, labels: string[], mapping?: RepositoryLabelMapping): string[] {
+    return Object.entries(this.resolveMapping(labels, mapping))
+      .filter(([, mapped]) => mapped === category)
+      .map(([label]) => label);
+  }
+
+  // Repository-scoped classification rules that match the mapped labels exactly. They run
+  // before the user's own rules, so a repository's own vocabulary takes precedence.
+  toClassificationRules(
+    catalogues: Map<string, GitHubLabel[]>,
+    mappings: Record<string, RepositoryLabelMapping>
+  ): ClassificationRule[] {
+    const categories = Object.keys(LABEL_SYNONYMS);
+
+    return [...catalogues].flatMap(([repository, labels]) => {
+      const resolved = this.resolveMapping(labels.map(label => label.name), mappings[repository]);
+      const byCategory = new Map<string, string[]>();
+      Object.entries(resolved).forEach(([label, category]) => {
+        if (category) byCategory.set(category, [...(byCategory.get(category) ?? []), label]);
+      });
+
+      const exact = (names: string[]) => names.map(name => `/^${escapeRegExp(name)}$/`);
+      const rules: ClassificationRule[] = [...byCategory].map(([category, names]) => ({
+        id: `labels:${repository}:${category}`,
+        field: 'category',
+        value: category,
+        // Keep the synonym dictionary's order; categories added by hand go last
+        priority: categories.includes(category) ? categories.length - categories.indexOf(category) : 0,
+        labels: exact(names),
+        repositories: [repository],
+      }));
+
+      const beginnerLabels = BEGINNER_CATEGORIES.flatMap(category => byCategory.get(category) ?? []);
+      if (beginnerLabels.length > 0) {
+        rules.push(
+          { id: `labels:${repository}:difficulty`, field: 'difficulty', value: 'beginner', priority: 0, labels: exact(beginnerLabels), repositories: [repository] },
+          { id: `labels:${repository}:priority`, field: 'priority', value: 'low', priority: 0, labels: exact(beginnerLabels), repositories: [repository] },
+        );
+      }
+      return rules;
+    });
+  }
+
+  // Label catalogues keyed by repository full name; repositories that fail are left out
+  async getLabels(fullNames: string[], options: RequestOptions = {}): Promise<Map<string, GitHubLabel[]>> {
+    const results = new Map<string, GitHubLabel[]>();
+
+    await Promise.all([...new Set(fullNames)].map(async name => {
+      const cached = this.cache.get(name.toLowerCase());
+      if (cached && Date.now() - cached.storedAt < CACHE_TTL_MS) {
+        results.set(name, cached.labels);
+        return;
+      }
+
+      try {
+        const labels = await githubService.getRepositoryLabels(name, { signal: options.signal });
+        this.cache.set(name.toLowerCase(), { labels, storedAt: Date.now() });
+        results.set(name, labels);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn(`Failed to fetch labels for ${name}:`, error);
+      }
+    }));
+
+    return results;
+  }
+}
+
+export const labelMappingService = new LabelMappingService();
@@ -0,0 +1,158 @@
+import { IssueChange, IssueChangeKind, NotificationPreferences } from '../types';
+import { GitHubIssue, RepositoryIssuesResult } from './github';
+
+const SNAPSHOT_STORAGE_KEY = 'giteasy_issue_snapshot';
+// Enough to catch up after a while away without the bell list growing unbounded
+export const MAX_ISSUE_ALERTS = 100;
+// Titles listed in one grouped notification before it says "and N more"
+const MAX_GROUPED_TITLES = 3;
+
+// The open issues of each monitored repository at the last refresh, with whether each was assigned
+export interface IssueSnapshot {
+  checkedAt: string;
+  repositories: Record<string, Record<number, boolean>>;
+  // Repositories with more open issues than one fetch returns
+  truncated?: string[];
+}
+
+export const ISSUE_CHANGE_LABELS: Record<IssueChangeKind, string> = {
+  new: 'New issue',
+  reopened: 'Reopened',
+  unassigned: 'Assignee removed',
+};
+
+const isAssigned = (issue: GitHubIssue) => Boolean(issue.assignee) || (issue.assignees?.length ?? 0) > 0;
+
+// Compare a refresh with the previous snapshot. Repositories seen for the first time only set
+// their baseline, and repositories that failed to load keep their previous entry so their issues
+// don't all look new once they load again. Only open issues are fetched, so an issue missing from
+// the last snapshot that was created before it must have been reopened, but only when both
+// fetches were complete: in a truncated fetch an old issue turns up again after any update.
+export const diffIssueSnapshot = (
+  previous: IssueSnapshot | null,
+  results: RepositoryIssuesResult[],
+  checkedAt = new Date()
+): { changes: IssueChange[]; snapshot: IssueSnapshot } => {
+  const snapshot: IssueSnapshot = { checkedAt: checkedAt.toISOString(), repositories: {} };
+  const truncatedRepositories: string[] = [];
+  const changes: IssueChange[] = [];
+  const previousCheck = previous ? new Date(previous.checkedAt).getTime() : 0;
+
+  for (const { repository, issues, error, truncated } of results) {
+    const before = previous?.repositories[repository];
+    const wasTruncated = previous?.truncated?.includes(repository) ?? false;
+    if (error) {
+      if (before) snapshot.repositories[repository] = before;
+      if (wasTruncated) truncatedRepositories.push(repository);
+      continue;
+    }
+
+    snapshot.repositories[repository] = Object.fromEntries(issues.map(issue => [issue.id, isAssigned(issue)]));
+    if (truncated) truncatedRepositories.push(repository);
+    if (!before) continue;
+
+    const complete = !truncated && !wasTruncated;
+    for (const issue of issues) {
+      const wasAssigned = before[issue.id];
+      const createdBefore = new Date(issue.created_at).getTime() < previousCheck;
+      const kind: IssueChangeKind | null = wasAssigned === undefined
+        ? (!createdBefore ? 'new' : complete ? 'reopened' : null)
+        : wasAssigned && !isAssigned(issue) ? 'unassigned' : null;
+      if (!kind) continue;
+
+      changes.push({
+        kind,
+        issueId: issue.id,
+        title: issue.title,
+        url: issue.html_url,
+        repository,
+        detectedAt: snapshot.checkedAt,
+      });
+    }
+  }
+
+  return { changes, snapshot: truncatedRepositories.length > 0 ? { ...snapshot, truncated: truncatedRepositories } : snapshot };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const isQuietTime = (quietHours: NotificationPreferences['quietHours'], date = new Date()): boolean => {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+// Whether the user wants to hear about a change at all, desktop or in the bell list
+export const wantsIssueChange = (change: IssueChange, preferences: NotificationPreferences): boolean =>
+  preferences.kinds?.[change.kind] !== false
+  && !(preferences.mutedRepositories ?? []).some(name => name.toLowerCase() === change.repository.toLowerCase());
+
+class NotificationService {
+  loadSnapshot(): IssueSnapshot | null {
+    try {
+      const saved = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  saveSnapshot(snapshot: IssueSnapshot) {
+    localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshot));
+  }
+
+  clearSnapshot() {
+    localStorage.removeItem(SNAPSHOT_STORAGE_KEY);
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  getPermission(): NotificationPermission | 'unsupported' {
+    return this.isSupported() ? Notification.permission : 'unsupported';
+  }
+
+  async requestPermission(): Promise<NotificationPermission | 'unsupported'> {
+    if (!this.isSupported()) return 'unsupported';
+    return Notification.requestPermission();
+  }
+
+  // One desktop notification per repository. Clicking opens the newest issue; the rest are in the bell list.
+  // Returns how many notifications were shown.
+  notify(changes: IssueChange[], preferences: NotificationPreferences, date = new Date()): number {
+    if (!preferences.instant || this.getPermission() !== 'granted' || isQuietTime(preferences.quietHours, date)) return 0;
+
+    const groups = new Map<string, IssueChange[]>();
+    for (const change of changes.filter(candidate => wantsIssueChange(candidate, preferences))) {
+      groups.set(change.repository, [...(groups.get(change.repository) ?? []), change]);
+    }
+
+    for (const [repository, group] of groups) {
+      const [first] = group;
+      const title = group.length === 1
+        ? `${ISSUE_CHANGE_LABELS[first.kind]} in ${repository}`
+        : `${group.length} issue updates in ${repository}`;
+      const lines = group.slice(0, MAX_GROUPED_TITLES).map(change =>
+        group.length === 1 ? change.title : `${ISSUE_CHANGE_LABELS[change.kind]}: ${change.title}`
+      );
+      if (group.length > MAX_GROUPED_TITLES) lines.push(`and ${group.length - MAX_GROUPED_TITLES} more`);
+
+      // Tagged by repository so a later refresh replaces rather than stacks
+      const notification = new Notification(title, { body: lines.join('\n'), tag: `giteasy-${repository}` });
+      notification.onclick = () => {
+        window.open(first.url, '_blank', 'noopener,noreferrer');
+        notification.close();
+      };
+    }
+
+    return groups.size;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,219 @@
+import { GitHubError, isAbortError, toGitHubError } from './errors';
+
+type QueryKeyPart = string | number | boolean | null | undefined;
+// Keys are compared by their JSON form, so parts may also be lists, e.g. several labels
+export type QueryKey = ReadonlyArray<QueryKeyPart | ReadonlyArray<QueryKeyPart>>;
+
+export interface QueryState<T> {
+  data?: T;
+  error: GitHubError | null;
+  status: 'idle' | 'loading' | 'success' | 'error';
+  // True whenever a request is in flight, including background revalidation of cached data
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+export interface QueryContext<T> {
+  signal: AbortSignal;
+  // Publish partial results (e.g. the first pages of a paginated list) before the fetch completes
+  setData: (data: T) => void;
+}
+
+export type QueryFetcher<T> = (context: QueryContext<T>) => Promise<T>;
+
+export interface FetchOptions {
+  // Ignore fresh cached data and any in-flight request
+  force?: boolean;
+  staleTime?: number;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<() => void>;
+  fetcher?: QueryFetcher<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_STALE_TIME = 60 * 1000;
+// How long an entry nobody listens to is kept, so remounting soon after still finds it
+export const GC_TIME = 5 * 60 * 1000;
+
+const IDLE_STATE: QueryState<never> = { error: null, status: 'idle', isFetching: false, updatedAt: 0 };
+
+// Session-wide cache of GitHub query results keyed by endpoint and parameters.
+// Identical requests share one in-flight promise, cached data is served while it
+// revalidates, and a request nobody is listening to any more is aborted. Entries without
+// listeners are dropped once they have sat idle for GC_TIME.
+export class QueryCache {
+  private entries = new Map<string, QueryEntry>();
+
+  hashKey(key: QueryKey): string {
+    return JSON.stringify(key);
+  }
+
+  private getEntry(key: QueryKey): QueryEntry {
+    const hash = this.hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: IDLE_STATE, listeners: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  // Returns the same object until the state changes, as useSyncExternalStore requires
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(this.hashKey(key))?.state ?? IDLE_STATE) as QueryState<T>;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    clearTimeout(entry.gcTimer);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0 && entry.controller) {
+        this.abortEntry(entry);
+      }
+      this.scheduleGc(entry);
+    };
+  }
+
+  async fetch<T>(key: QueryKey, fetcher: QueryFetcher<T>, options: FetchOptions = {}): Promise<T> {
+    const entry = this.getEntry(key);
+    const { force = false, staleTime = DEFAULT_STALE_TIME } = options;
+    entry.fetcher = fetcher as QueryFetcher<unknown>;
+
+    if (!force) {
+      if (entry.promise) {
+        return entry.promise as Promise<T>;
+      }
+      if (entry.state.status === 'success' && Date.now() - entry.state.updatedAt < staleTime) {
+        return entry.state.data as T;
+      }
+    }
+
+    // A forced fetch supersedes whatever was in flight
+    this.abortEntry(entry);
+    const controller = new AbortController();
+    entry.controller = controller;
+
+    this.setState(entry, {
+      ...entry.state,
+      status: entry.state.data === undefined ? 'loading' : entry.state.status,
+      isFetching: true,
+    });
+
+    const promise = fetcher({
+      signal: controller.signal,
+      setData: data => {
+        if (entry.controller === controller) {
+          this.setState(entry, { ...entry.state, data });
+        }
+      },
+    }).then(
+      data => {
+        if (entry.controller === controller) {
+          this.settle(entry, { data, error: null, status: 'success', isFetching: false, updatedAt: Date.now() });
+        }
+        return data;
+      },
+      error => {
+        if (entry.controller === controller && !isAbortError(error)) {
+          this.settle(entry, {
+            ...entry.state,
+            error: toGitHubError(error, 'Request failed'),
+            status: 'error',
+            isFetching: false,
+          });
+        }
+        throw error;
+      }
+    );
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  setData<T>(key: QueryKey, updater: (data: T | undefined) => T) {
+    const entry = this.getEntry(key);
+    this.setState(entry, {
+      ...entry.state,
+      data: updater(entry.state.data as T | undefined),
+      status: 'success',
+      updatedAt: Date.now(),
+    });
+  }
+
+  // Mark every query whose key starts with `prefix` as stale and refetch the ones on screen
+  invalidate(prefix: QueryKey) {
+    const hashPrefix = this.hashKey(prefix).slice(0, -1);
+    this.entries.forEach(entry => {
+      if (!this.hashKey(entry.key).startsWith(hashPrefix)) return;
+
+      entry.state = { ...entry.state, updatedAt: 0 };
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher, { force: true }).catch(() => {
+          // Failures are recorded in the entry state
+        });
+      }
+    });
+  }
+
+  // Drop everything, e.g. when the user signs out
+  clear() {
+    this.entries.forEach((entry, hash) => {
+      clearTimeout(entry.gcTimer);
+      this.abortEntry(entry);
+      entry.fetcher = undefined;
+      this.setState(entry, IDLE_STATE);
+      // Mounted hooks keep their entry so they still hear about the next fetch
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+      }
+    });
+  }
+
+  private abortEntry(entry: QueryEntry) {
+    entry.controller?.abort();
+    entry.controller = undefined;
+    entry.promise = undefined;
+    if (entry.state.isFetching) {
+      entry.state = {
+        ...entry.state,
+        status: entry.state.data === undefined ? 'idle' : entry.state.status,
+        isFetching: false,
+      };
+    }
+  }
+
+  private settle(entry: QueryEntry, state: QueryState<unknown>) {
+    entry.controller = undefined;
+    entry.promise = undefined;
+    this.setState(entry, state);
+    this.scheduleGc(entry);
+  }
+
+  private scheduleGc(entry: QueryEntry) {
+    clearTimeout(entry.gcTimer);
+    if (entry.listeners.size > 0) return;
+
+    entry.gcTimer = setTimeout(() => {
+      const hash = this.hashKey(entry.key);
+      if (entry.listeners.size === 0 && !entry.promise && this.entries.get(hash) === entry) {
+        this.entries.delete(hash);
+      }
+    }, GC_TIME);
+  }
+
+  private setState(entry: QueryEntry, state: QueryState<unknown>) {
+    entry.state = state;
+    entry.listeners.forEach(listener => listener());
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,205 @@
+import { IssueRanking, RankingContribution, RankingFactor, RankingWeights } from '../types';
+
+// Everything a scorer may look at, normalised from either GitHub search results or monitored issues
+export interface RankingInput {
+  updatedAt: string;
+  comments: number;
+  reactions?: number;
+  labels: string[];
+  language?: string;
+  repositoryStars?: number;
+  repositoryHealth?: number;
+}
+
+export interface RankingContext {
+  preferredLanguages: string[];
+  now: number;
+}
+
+export interface IssueScorer {
+  factor: RankingFactor;
+  label: string;
+  description: string;
+  // 0-1, or null when the input lacks the data this scorer needs
+  score: (input: RankingInput, context: RankingContext) => { score: number | null; detail: string };
+}
+
+export interface RankedItem<T> {
+  item: T;
+  ranking: IssueRanking;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: Record<RankingFactor, number> = {
+  recency: 6,
+  stars: 4,
+  // Off until the user turns it up: scoring health costs several requests per repository
+  health: 0,
+  comments: 2,
+  reactions: 1,
+  labels: 3,
+  language: 2,
+};
+
+export const MAX_RANKING_WEIGHT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How strongly a label marks an issue as suitable for a newcomer
+const LABEL_STRENGTH: Record<string, number> = {
+  'good first issue': 1,
+  'good-first-issue': 1,
+  'first-timers-only': 1,
+  'beginner-friendly': 0.9,
+  'beginner': 0.9,
+  'easy': 0.9,
+  'starter': 0.85,
+  'up-for-grabs': 0.8,
+  'documentation': 0.7,
+  'help wanted': 0.6,
+  'hacktoberfest': 0.5,
+};
+
+const recencyScorer: IssueScorer = {
+  factor: 'recency',
+  label: 'Recent activity',
+  description: 'Issues updated recently are more likely to get a response',
+  score: ({ updatedAt }, { now }) => {
+    const days = Math.max(0, (now - new Date(updatedAt).getTime()) / DAY_MS);
+    return { score: Math.max(0, 1 - days / 100), detail: `Updated ${Math.round(days)} days ago` };
+  },
+};
+
+const starsScorer: IssueScorer = {
+  factor: 'stars',
+  label: 'Repository stars',
+  description: 'Popular projects, on a log scale so the largest ones do not dominate',
+  score: ({ repositoryStars }) =>
+    repositoryStars === undefined
+      ? { score: null, detail: 'Star count unknown' }
+      : { score: Math.min(1, Math.log10(Math.max(1, repositoryStars)) / 5), detail: `${repositoryStars.toLocaleString()} stars` },
+};
+
+const healthScorer: IssueScorer = {
+  factor: 'health',
+  label: 'Repository health',
+  description: 'Active projects with responsive maintainers; checking health takes extra requests',
+  score: ({ repositoryHealth }) =>
+    repositoryHealth === undefined
+      ? { score: null, detail: 'Health not checked' }
+      : { score: repositoryHealth / 100, detail: `Health score ${repositoryHealth}` },
+};
+
+const commentsScorer: IssueScorer = {
+  factor: 'comments',
+  label: 'Discussion',
+  description: 'Some discussion helps; very long threads usually mean a contested issue',
+  score: ({ comments }) => {
+    const score = comments === 0 ? 0.4 : comments <= 10 ? 1 : Math.max(0.2, 1 - (comments - 10) / 30);
+    return { score, detail: `${comments} comment${comments === 1 ? '' : 's'}` };
+  },
+};
+
+const reactionsScorer: IssueScorer = {
+  factor: 'reactions',
+  label: 'Reactions',
+  description: 'Issues other people care about',
+  score: ({ reactions }) =>
+    reactions === undefined
+      ? { score: null, detail: 'Reactions unknown' }
+      : { score: Math.min(1, Math.log10(1 + reactions) / 2), detail: `${reactions} reaction${reactions === 1 ? '' : 's'}` },
+};
+
+const labelsScorer: IssueScorer = {
+  factor: 'labels',
+  label: 'Beginner labels',
+  description: 'How clearly the labels mark the issue as suitable for newcomers',
+  score: ({ labels }) => {
+    const strongest = labels
+      .map(label => ({ label, strength: LABEL_STRENGTH[label.toLowerCase()] ?? 0 }))
+      .reduce((best, current) => (current.strength > best.strength ? current : best), { label: '', strength: 0 });
+    return {
+      score: strongest.strength,
+      detail: strongest.label ? `Labelled "${strongest.label}"` : 'No beginner labels',
+    };
+  },
+};
+
+const languageScorer: IssueScorer = {
+  factor: 'language',
+  label: 'Language match',
+  description: 'Written in one of your preferred languages',
+  score: ({ language }, { preferredLanguages }) => {
+    if (preferredLanguages.length === 0) return { score: null, detail: 'No preferred languages set' };
+    if (!language) return { score: null, detail: 'Language unknown' };
+    const matches = preferredLanguages.some(preferred => preferred.toLowerCase() === language.toLowerCase());
+    return { score: matches ? 1 : 0, detail: matches ? `Uses ${language}` : `Uses ${language}, not a preferred language` };
+  },
+};
+
+// Scores issues as a weighted average of independent scorers. Scorers that cannot measure an
+// issue are left out and the remaining weights rescaled, so missing data neither helps nor hurts.
+export class RankingEngine {
+  private scorers = new Map<RankingFactor, IssueScorer>();
+
+  register(scorer: IssueScorer): this {
+    this.scorers.set(scorer.factor, scorer);
+    return this;
+  }
+
+  getScorers(): IssueScorer[] {
+    return [...this.scorers.values()];
+  }
+
+  score(input: RankingInput, weights: RankingWeights = {}, context: Partial<RankingContext> = {}): Omit<IssueRanking, 'position'> {
+    const fullContext: RankingContext = { preferredLanguages: [], now: Date.now(), ...context };
+    const results = this.getScorers().map(scorer => {
+      const weight = weights[scorer.factor] ?? DEFAULT_RANKING_WEIGHTS[scorer.factor];
+      const { score, detail } = scorer.score(input, fullContext);
+      return { scorer, weight, score, detail };
+    });
+
+    const totalWeight = results
+      .filter(result => result.score !== null && result.weight > 0)
+      .reduce((sum, result) => sum + result.weight, 0);
+
+    const contributions: RankingContribution[] = results.map(({ scorer, weight, score, detail }) => ({
+      factor: scorer.factor,
+      label: scorer.label,
+      weight,
+      score: score === null ? null : Math.round(score * 100),
+      points: score === null || totalWeight === 0 ? 0 : (score * weight * 100) / totalWeight,
+      detail,
+    }));
+
+    return {
+      score: Math.round(contributions.reduce((sum, contribution) => sum + contribution.points, 0)),
+      contributions,
+    };
+  }
+
+  // Sort best first. Ties keep their incoming order, which is usually the API's sort.
+  rank<T>(
+    items: T[],
+    toInput: (item: T) => RankingInput,
+    weights: RankingWeights = {},
+    context: Partial<RankingContext> = {}
+  ): RankedItem<T>[] {
+    const now = Date.now();
+    return items
+      .map((item, index) => ({ item, index, ...this.score(toInput(item), weights, { now, ...context }) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ item, score, contributions }, position) => ({
+        item,
+        ranking: { score, position: position + 1, contributions },
+      }));
+  }
+}
+
+export const rankingEngine = new RankingEngine()
+  .register(recencyScorer)
+  .register(starsScorer)
+  .register(healthScorer)
+  .register(commentsScorer)
+  .register(reactionsScorer)
+  .register(labelsScorer)
+  .register(languageScorer);
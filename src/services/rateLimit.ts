@@ -0,0 +1,101 @@
+import { RateLimitError } from './errors';
+
+export type RateLimitResource = 'core' | 'search' | 'graphql';
+
+export interface RateLimitBudget {
+  resource: RateLimitResource;
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: Date;
+}
+
+export type RateLimitSnapshot = Partial<Record<RateLimitResource, RateLimitBudget>>;
+
+type Listener = () => void;
+
+// Requests that would have to wait longer than this fail instead of hanging the UI
+export const MAX_HOLD_MS = 60 * 1000;
+
+// Resolves after `ms`, or rejects with an AbortError as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timeout);
+    reject(signal!.reason);
+  };
+  const timeout = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Tracks the primary rate-limit budgets GitHub reports on every response
+export class RateLimitTracker {
+  private snapshot: RateLimitSnapshot = {};
+  private listeners = new Set<Listener>();
+
+  // Pick the budget a request will be charged against before we see the response
+  getResourceForEndpoint(endpoint: string): RateLimitResource {
+    const path = endpoint.replace(/^https?:\/\/[^/]+/, '');
+    if (path.includes('/search/')) return 'search';
+    if (path.endsWith('/graphql')) return 'graphql';
+    return 'core';
+  }
+
+  update(headers: Headers, fallbackResource: RateLimitResource) {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) return;
+
+    const resource = (headers.get('X-RateLimit-Resource') as RateLimitResource | null) || fallbackResource;
+    this.snapshot = {
+      ...this.snapshot,
+      [resource]: {
+        resource,
+        limit: Number(limit),
+        remaining: Number(remaining),
+        used: Number(headers.get('X-RateLimit-Used') ?? Number(limit) - Number(remaining)),
+        resetAt: new Date(Number(reset) * 1000),
+      },
+    };
+    this.emit();
+  }
+
+  // Milliseconds to hold a request until the budget resets, or 0 if it can go now
+  getWaitTime(resource: RateLimitResource): number {
+    const budget = this.snapshot[resource];
+    if (!budget || budget.remaining > 0) return 0;
+    return Math.max(0, budget.resetAt.getTime() - Date.now());
+  }
+
+  async waitForCapacity(resource: RateLimitResource, signal?: AbortSignal) {
+    const wait = this.getWaitTime(resource);
+    if (wait === 0) return;
+
+    if (wait > MAX_HOLD_MS) {
+      const resetAt = this.snapshot[resource]!.resetAt;
+      throw new RateLimitError(`GitHub ${resource} rate limit exhausted until ${resetAt.toLocaleTimeString()}`, resetAt, { resource });
+    }
+    await sleep(wait, signal);
+  }
+
+  getSnapshot = (): RateLimitSnapshot => this.snapshot;
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
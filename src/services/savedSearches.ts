@@ -0,0 +1,90 @@
+import { DiscoverFilters, SavedSearch, WatchedMatch } from '../types';
+import { GitHubIssue } from './github';
+
+// Enough to remember several refreshes' worth of results without bloating local storage
+const MAX_SEEN_ISSUES = 1000;
+const MAX_NEW_MATCHES = 50;
+
+// Selection order of languages and labels doesn't change the search, so compare sorted copies
+const toKey = (filters: DiscoverFilters) => JSON.stringify([
+  [...filters.languages].sort(),
+  [...filters.labels].sort(),
+  filters.repository ?? null,
+  filters.primarySort,
+  filters.primarySort === 'best' ? null : filters.secondarySort ?? null,
+  filters.minHealth,
+]);
+
+export const isSameSearch = (a: DiscoverFilters, b: DiscoverFilters) => toKey(a) === toKey(b);
+
+export const createSavedSearch = (name: string, filters: DiscoverFilters): SavedSearch => ({
+  id: `search-${Date.now()}`,
+  name: name.trim(),
+  // New searches go on the Discover bar; unpinning tidies them into the manage list
+  pinned: true,
+  filters,
+});
+
+// Move a search one place up (-1) or down (1); out-of-range moves leave the list unchanged
+export const moveSavedSearch = (searches: SavedSearch[], id: string, offset: -1 | 1): SavedSearch[] => {
+  const index = searches.findIndex(search => search.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= searches.length) return searches;
+
+  const next = [...searches];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+// One-line summary for lists, e.g. "Rust, Go · documentation · best match"
+export const describeFilters = (filters: DiscoverFilters): string => {
+  const sort = { best: 'best match', updated: 'most recent', stars: 'most stars', created: 'newest' }[filters.primarySort];
+  return [
+    ...(filters.repository ? [filters.repository] : []),
+    filters.languages.length > 0 ? filters.languages.join(', ') : 'All languages',
+    filters.labels.length > 0 ? filters.labels.join(', ') : 'good first issue',
+    sort,
+    ...(filters.minHealth > 0 ? [`health ${filters.minHealth}+`] : []),
+  ].join(' · ');
+};
+
+// e.g. "1,234", or "up to 1,234" when split queries may have counted an issue twice
+export const formatResultCount = (count: number, approximate = false) =>
+  `${approximate ? 'up to ' : ''}${count.toLocaleString()}`;
+
+// Record a watched search's latest results. The first check only sets the baseline, so
+// issues that already matched when the search was watched never raise an alert. The check
+// runs a looser query than the search itself, so its result count is left as it was.
+export const recordWatchedResults = (
+  search: SavedSearch,
+  issues: GitHubIssue[],
+  checkedAt = new Date()
+): SavedSearch => {
+  const seen = new Set(search.seenIssueIds ?? []);
+  const unseen = issues.filter(issue => !seen.has(issue.id));
+  const matches: WatchedMatch[] = search.seenIssueIds
+    ? unseen.map(issue => ({
+      id: issue.id,
+      title: issue.title,
+      url: issue.html_url,
+      repository: issue.repository_url.split('/').slice(-2).join('/'),
+      foundAt: checkedAt.toISOString(),
+    }))
+    : [];
+
+  return {
+    ...search,
+    lastCheckedAt: checkedAt.toISOString(),
+    seenIssueIds: [...unseen.map(issue => issue.id), ...(search.seenIssueIds ?? [])].slice(0, MAX_SEEN_ISSUES),
+    newMatches: [...matches, ...(search.newMatches ?? [])].slice(0, MAX_NEW_MATCHES),
+  };
+};
+
+// Watching starts from a fresh baseline and stopping forgets what was seen
+export const setWatched = (search: SavedSearch, watched: boolean): SavedSearch => ({
+  ...search,
+  watched,
+  lastCheckedAt: undefined,
+  seenIssueIds: undefined,
+  newMatches: undefined,
+});
@@ -0,0 +1,196 @@
+import { ValidationError } from './errors';
+
+export type SearchQualifier =
+  | 'is' | 'in' | 'no' | 'type' | 'state'
+  | 'label' | 'language' | 'topic'
+  | 'repo' | 'org' | 'user' | 'author' | 'assignee'
+  | 'archived' | 'fork' | 'mirror'
+  | 'stars' | 'forks' | 'comments' | 'reactions' | 'interactions'
+  | 'good-first-issues' | 'help-wanted-issues'
+  | 'created' | 'updated' | 'pushed' | 'closed';
+
+export interface SearchLimits {
+  // Free-text characters, not counting qualifiers or operators
+  maxLength: number;
+  maxOperators: number;
+}
+
+interface Term {
+  kind: 'term';
+  qualifier?: SearchQualifier;
+  value: string;
+  negate: boolean;
+}
+
+interface AnyOf {
+  kind: 'anyOf';
+  qualifier: SearchQualifier;
+  values: string[];
+}
+
+type Clause = Term | AnyOf;
+
+// https://docs.github.com/en/search-github/getting-started-with-searching-on-github/troubleshooting-search-queries
+export const GITHUB_SEARCH_LIMITS: SearchLimits = { maxLength: 256, maxOperators: 5 };
+
+const RANGE_PATTERN = /^(?:(?:>=|<=|>|<)?\d+|\d+\.\.(?:\d+|\*)|\*\.\.\d+)$/;
+const DATE = '\\d{4}-\\d{2}-\\d{2}(?:T[\\d:]+(?:Z|[+-]\\d{2}:\\d{2})?)?';
+const DATE_PATTERN = new RegExp(`^(?:(?:>=|<=|>|<)?${DATE}|${DATE}\\.\\.(?:${DATE}|\\*)|\\*\\.\\.${DATE})$`);
+const LOGIN_PATTERN = /^[A-Za-z\d](?:[A-Za-z\d-]*[A-Za-z\d])?$/;
+const REPO_PATTERN = /^[A-Za-z\d-]+\/[\w.-]+$/;
+const BOOLEAN_PATTERN = /^(?:true|false)$/;
+
+const VALUE_PATTERNS: Partial<Record<SearchQualifier, RegExp>> = {
+  stars: RANGE_PATTERN,
+  forks: RANGE_PATTERN,
+  comments: RANGE_PATTERN,
+  reactions: RANGE_PATTERN,
+  interactions: RANGE_PATTERN,
+  'good-first-issues': RANGE_PATTERN,
+  'help-wanted-issues': RANGE_PATTERN,
+  created: DATE_PATTERN,
+  updated: DATE_PATTERN,
+  pushed: DATE_PATTERN,
+  closed: DATE_PATTERN,
+  repo: REPO_PATTERN,
+  org: LOGIN_PATTERN,
+  user: LOGIN_PATTERN,
+  author: /^(?:@me|[A-Za-z\d](?:[A-Za-z\d-]*[A-Za-z\d])?(?:\[bot\])?)$/,
+  assignee: /^(?:@me|[A-Za-z\d](?:[A-Za-z\d-]*[A-Za-z\d])?)$/,
+  archived: BOOLEAN_PATTERN,
+  mirror: BOOLEAN_PATTERN,
+  fork: /^(?:true|false|only)$/,
+  is: /^(?:issue|pr|open|closed|merged|unmerged|draft|locked|unlocked|public|private|archived|sponsorable|template)$/,
+  state: /^(?:open|closed)$/,
+  type: /^(?:issue|pr)$/,
+  no: /^(?:label|milestone|assignee|project)$/,
+  in: /^(?:title|body|comments|name|description|readme|topics)(?:,(?:title|body|comments|name|description|readme|topics))*$/,
+};
+
+const OPERATORS = new Set(['AND', 'OR', 'NOT']);
+
+const invalid = (message: string) =>
+  new ValidationError(message, [{ field: 'q', code: 'invalid', message }]);
+
+// Values with whitespace, qualifier syntax or operator words have to be quoted.
+// GitHub has no escape for a double quote inside a quoted value, so those are rejected.
+const formatValue = (value: string): string => {
+  if (value.includes('"')) {
+    throw invalid(`Search values cannot contain double quotes: ${value}`);
+  }
+  return /[\s:()]/.test(value) || OPERATORS.has(value.toUpperCase()) ? `"${value}"` : value;
+};
+
+const validate = (qualifier: SearchQualifier, value: string) => {
+  const pattern = VALUE_PATTERNS[qualifier];
+  if (!value.trim()) {
+    throw invalid(`Empty value for the ${qualifier}: qualifier`);
+  }
+  if (pattern && !pattern.test(value)) {
+    throw invalid(`Invalid value for the ${qualifier}: qualifier: ${value}`);
+  }
+};
+
+const renderTerm = ({ qualifier, value, negate }: Term) =>
+  `${negate ? '-' : ''}${qualifier ? `${qualifier}:` : ''}${formatValue(value)}`;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Chunk sizes for OR groups of the given sizes that fit the operator budget together (a chunk
+// of n values takes n - 1 operators) and need the fewest queries, one per combination of chunks
+const chooseChunkSizes = (counts: number[], budget: number): { sizes: number[]; queries: number } => {
+  if (counts.length === 0) return { sizes: [], queries: 1 };
+  const [count, ...rest] = counts;
+  let best = { sizes: [] as number[], queries: Infinity };
+  for (let size = 1; size <= Math.min(count, budget + 1); size++) {
+    const remaining = chooseChunkSizes(rest, budget - (size - 1));
+    const queries = Math.ceil(count / size) * remaining.queries;
+    if (queries < best.queries) best = { sizes: [size, ...remaining.sizes], queries };
+  }
+  return best;
+};
+
+// Immutable builder for GitHub search queries. Every method returns a new query, so a
+// shared base (e.g. the beginner-issue filters) can be extended without copying strings.
+export class SearchQuery {
+  private constructor(private readonly clauses: Clause[]) {}
+
+  static create(): SearchQuery {
+    return new SearchQuery([]);
+  }
+
+  // Undefined values are skipped so optional filters can be chained directly
+  where(qualifier: SearchQualifier, value: string | number | boolean | undefined): SearchQuery {
+    if (value === undefined) return this;
+    validate(qualifier, String(value));
+    return this.add({ kind: 'term', qualifier, value: String(value), negate: false });
+  }
+
+  exclude(qualifier: SearchQualifier, value: string | undefined): SearchQuery {
+    if (value === undefined) return this;
+    validate(qualifier, value);
+    return this.add({ kind: 'term', qualifier, value, negate: true });
+  }
+
+  // Matches any of the values; rendered as a parenthesised OR group
+  anyOf(qualifier: SearchQualifier, values: string[]): SearchQuery {
+    const unique = [...new Set(values)];
+    if (unique.length === 0) return this;
+    unique.forEach(value => validate(qualifier, value));
+    return this.add({ kind: 'anyOf', qualifier, values: unique });
+  }
+
+  text(value: string): SearchQuery {
+    return value.trim() ? this.add({ kind: 'term', value: value.trim(), negate: false }) : this;
+  }
+
+  toString(): string {
+    return this.clauses
+      .map(clause => {
+        if (clause.kind === 'term') return renderTerm(clause);
+        const terms = clause.values.map(value => renderTerm({ kind: 'term', qualifier: clause.qualifier, value, negate: false }));
+        return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+      })
+      .join(' ');
+  }
+
+  // Split into as few queries as possible that each stay within GitHub's limits. Every OR
+  // group is cut into chunks and each query takes one chunk of every group, so the groups share
+  // the operator budget: 7 languages and 8 labels take 6 queries in chunks of 3 and 4.
+  // Results must be merged by the caller.
+  split(limits: SearchLimits = GITHUB_SEARCH_LIMITS): string[] {
+    const textLength = this.clauses
+      .filter((clause): clause is Term => clause.kind === 'term' && !clause.qualifier)
+      .reduce((length, term) => length + term.value.length, 0);
+    if (textLength > limits.maxLength) {
+      throw invalid(`Search text is longer than ${limits.maxLength} characters`);
+    }
+
+    if (this.countOperators() <= limits.maxOperators) {
+      return [this.toString()];
+    }
+
+    const groups = this.clauses.filter((clause): clause is AnyOf => clause.kind === 'anyOf');
+    const { sizes } = chooseChunkSizes(groups.map(group => group.values.length), limits.maxOperators);
+
+    return groups
+      .reduce((queries, group, index) => queries.flatMap(clauses =>
+        chunk(group.values, sizes[index]).map(values => clauses.map(clause => (clause === group ? { ...group, values } : clause)))
+      ), [this.clauses])
+      .map(clauses => new SearchQuery(clauses).toString());
+  }
+
+  private countOperators(): number {
+    return this.clauses.reduce((count, clause) => count + (clause.kind === 'anyOf' ? clause.values.length - 1 : 0), 0);
+  }
+
+  private add(clause: Clause): SearchQuery {
+    return new SearchQuery([...this.clauses, clause]);
+  }
+}
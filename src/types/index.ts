@@ -4,11 +4,185 @@ export interface UserData {
   repositoryUrl?: string;
   issueTypes: string[];
   repositories?: Repository[];
-  notificationPreferences: {
-    instant: boolean;
-    daily: boolean;
-    weekly: boolean;
-  };
+  notificationPreferences: NotificationPreferences;
+  // Relative importance of each ranking factor; missing factors use the defaults
+  rankingWeights?: RankingWeights;
+  preferredLanguages?: string[];
+  // Replaces the built-in classification rules when set
+  classificationRules?: ClassificationRule[];
+  // Keyed by repository full name
+  labelMappings?: Record<string, RepositoryLabelMapping>;
+  exclusions?: SearchExclusions;
+  // In the user's order; pinned searches also get a one-click button on Discover
+  savedSearches?: SavedSearch[];
+  // Changes to monitored issues not yet dismissed from the bell, newest first
+  issueAlerts?: IssueChange[];
+  // Issues the user follows in digests, newest first
+  bookmarks?: Bookmark[];
+  // Generated digests, newest first
+  digests?: Digest[];
+}
+
+export interface Bookmark {
+  issueId: number;
+  // Full name, e.g. "owner/repo"
+  repository: string;
+  number: number;
+  title: string;
+  url: string;
+  addedAt: string;
+}
+
+export type DigestCadence = 'daily' | 'weekly';
+
+export type DigestItemKind = 'new' | 'closed' | 'claimed' | 'bookmark';
+
+export interface DigestItem {
+  kind: DigestItemKind;
+  issueId: number;
+  title: string;
+  url: string;
+  repository: string;
+  category: string;
+  // What happened, e.g. "Assigned to @octocat" or "3 new comments"
+  detail?: string;
+}
+
+// What changed in the monitored repositories and bookmarked issues over one window
+export interface Digest {
+  id: string;
+  cadence: DigestCadence;
+  windowStart: string;
+  windowEnd: string;
+  generatedAt: string;
+  items: DigestItem[];
+  // Sections that could not be gathered, so an empty digest isn't mistaken for a quiet one
+  errors?: string[];
+  viewedAt?: string;
+}
+
+export interface NotificationPreferences {
+  // Desktop notifications as monitored issues change
+  instant: boolean;
+  daily: boolean;
+  weekly: boolean;
+  // Local "HH:MM" times; desktop notifications are held back between them, across midnight if start is later
+  quietHours?: { start: string; end: string };
+  // Missing kinds are notified
+  kinds?: Partial<Record<IssueChangeKind, boolean>>;
+  // Full names of repositories that never notify
+  mutedRepositories?: string[];
+}
+
+export type IssueChangeKind = 'new' | 'reopened' | 'unassigned';
+
+// A monitored issue that changed between two refreshes
+export interface IssueChange {
+  kind: IssueChangeKind;
+  issueId: number;
+  title: string;
+  url: string;
+  repository: string;
+  detectedAt: string;
+}
+
+// Everything the Discover panel searches with
+export interface DiscoverFilters {
+  languages: string[];
+  labels: string[];
+  // A monitored repository to search within
+  repository?: string;
+  primarySort: 'best' | 'updated' | 'stars' | 'created';
+  secondarySort?: 'updated' | 'stars' | 'created';
+  // Minimum repository health score; 0 disables the filter
+  minHealth: number;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  pinned: boolean;
+  filters: DiscoverFilters;
+  lastRunAt?: string;
+  // Matches GitHub reported on the last run
+  resultCount?: number;
+  // The run was split into overlapping queries, so resultCount is an upper bound
+  resultCountApproximate?: boolean;
+  // Watched searches re-run on the refresh schedule and alert on issues not seen before
+  watched?: boolean;
+  // Last background check of a watched search
+  lastCheckedAt?: string;
+  // Newest first; unset until the first check has recorded what already matched
+  seenIssueIds?: number[];
+  // Not yet dismissed, newest first
+  newMatches?: WatchedMatch[];
+}
+
+export interface WatchedMatch {
+  id: number;
+  title: string;
+  url: string;
+  repository: string;
+  foundAt: string;
+}
+
+// What Discover never shows: hidden repositories and owners, plus kinds of repository
+export interface SearchExclusions {
+  // Full names, e.g. "owner/repo"
+  repositories: string[];
+  // Owner logins, organizations or users
+  organizations: string[];
+  archived: boolean;
+  forks: boolean;
+  // Repositories whose contributing guide asks for a Contributor License Agreement
+  cla: boolean;
+}
+
+// The user's review of the categories suggested for one repository's labels
+export interface RepositoryLabelMapping {
+  // Labels the user re-mapped by hand; null means the label maps to no category
+  overrides: Record<string, string | null>;
+  // Set once the user has accepted the mapping
+  confirmedAt?: string;
+}
+
+export type ClassificationField = 'category' | 'priority' | 'difficulty';
+
+export interface ClassificationRule {
+  id: string;
+  field: ClassificationField;
+  // Category name, or the priority/difficulty level to assign
+  value: string;
+  // Higher priorities are checked first; the first matching rule wins
+  priority: number;
+  // Whole-word terms matched against label names and the title. Spaces also match
+  // hyphens and underscores, and /slashed/ terms are used as regular expressions.
+  labels?: string[];
+  title?: string[];
+  // Limits the rule to these repositories; such rules are checked before global ones
+  repositories?: string[];
+  enabled?: boolean;
+}
+
+export type RankingFactor = 'recency' | 'stars' | 'health' | 'comments' | 'reactions' | 'labels' | 'language';
+
+export type RankingWeights = Partial<Record<RankingFactor, number>>;
+
+export interface RankingContribution {
+  factor: RankingFactor;
+  label: string;
+  weight: number;
+  // 0-100, or null when the factor could not be measured for this issue
+  score: number | null;
+  // Points this factor adds to the final score
+  points: number;
+  detail: string;
+}
+
+export interface IssueRanking {
+  score: number;
+  position: number;
+  contributions: RankingContribution[];
 }
 
 export interface Repository {
@@ -21,6 +195,8 @@ export interface Repository {
   language: string;
   private: boolean;
   topics?: string[];
+  // Kilobytes, as reported by GitHub
+  size?: number;
   owner?: {
     login: string;
     avatar_url: string;
@@ -29,10 +205,15 @@ export interface Repository {
 
 export interface Issue {
   id: number;
+  number?: number;
   title: string;
+  // Primary category, shown on cards
   type: string;
+  // Every category the issue matched, primary first
+  categories: string[];
   priority: 'low' | 'medium' | 'high';
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  difficultyEstimate?: DifficultyEstimate;
   status: 'open' | 'closed';
   createdAt: string;
   repository: string;
@@ -40,6 +221,109 @@ export interface Issue {
   url?: string;
   author?: string;
   labels?: string[];
+  body?: string;
   comments?: number;
   assignee?: any;
-}
\ No newline at end of file
+  linkedPullRequests?: Array<{
+    number: number;
+    url: string;
+    state: 'open' | 'closed' | 'merged';
+  }>;
+  claim?: IssueClaim;
+  updatedAt?: string;
+  reactions?: number;
+  repositoryLanguage?: string;
+  repositoryStars?: number;
+  repositorySize?: number;
+}
+
+export type ClaimStatus = 'available' | 'claimed' | 'in-review';
+
+export interface ClaimEvidence {
+  kind: 'assignee' | 'pull-request' | 'comment';
+  description: string;
+  url?: string;
+  // When the comment was posted, the assignment made or the pull request linked, if known
+  createdAt?: string;
+}
+
+export interface IssueClaim {
+  status: ClaimStatus;
+  evidence: ClaimEvidence[];
+}
+
+export interface PullRequest {
+  id: number;
+  number: number;
+  title: string;
+  status: 'open' | 'closed' | 'merged';
+  draft: boolean;
+  createdAt: string;
+  updatedAt: string;
+  repository: string;
+  repositoryFullName: string;
+  url: string;
+  author: string;
+  labels: string[];
+  comments?: number;
+  reviewDecision?: 'approved' | 'changes_requested' | 'review_required';
+  closingIssueNumbers?: number[];
+}
+
+export type HealthSignalKey = 'activity' | 'responsiveness' | 'pullRequests' | 'community';
+
+export interface HealthSignal {
+  key: HealthSignalKey;
+  label: string;
+  // 0-100, or null when the signal could not be measured
+  score: number | null;
+  weight: number;
+  detail: string;
+}
+
+export interface RepositoryHealth {
+  repository: string;
+  score: number;
+  grade: 'healthy' | 'fair' | 'poor';
+  archived: boolean;
+  fork: boolean;
+  signals: HealthSignal[];
+}
+
+export type DifficultySignalKey =
+  | 'labels'
+  | 'scope'
+  | 'files'
+  | 'code'
+  | 'checklist'
+  | 'tests'
+  | 'repositorySize'
+  | 'language'
+  | 'discussion';
+
+export interface DifficultySignal {
+  key: DifficultySignalKey;
+  label: string;
+  // 0 (easy) to 100 (hard), or null when the issue gives nothing to go on
+  score: number | null;
+  weight: number;
+  detail: string;
+}
+
+export interface DifficultyEstimate {
+  level: 'beginner' | 'intermediate' | 'advanced';
+  score: number;
+  // 0-1: how much of the evidence was available and how well it agreed
+  confidence: number;
+  signals: DifficultySignal[];
+}
+
+export interface CatalogueEntry {
+  fullName: string;
+  language: string;
+  topics: string[];
+  // The label the project uses for newcomer issues, when it is not "good first issue"
+  goodFirstIssueLabel?: string;
+}
+
+export type CatalogueFlag = 'archived' | 'renamed' | 'issues-disabled' | 'missing' | 'lookup-failed';